@@ -1,68 +1,156 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Brain, CheckCircle, AlertTriangle, Eye, EyeOff, Lightbulb } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Brain, CheckCircle, AlertTriangle, Eye, EyeOff, Lightbulb, RotateCcw, Square, Gauge } from "lucide-react";
 import { DiffView } from "@/components/diff-view";
-import { type SectionImprovement } from "@shared/schema";
+import { formatSpanLines, calculateContextualDiff, applyDiffDecisions } from "@/lib/text-analysis";
+import { type SectionImprovement, type EnhancementEdit, type AnalysisResult, type Keyword } from "@shared/schema";
+import { openAIClient } from "@/services/openai-client.service";
 import { useToast } from "@/hooks/use-toast";
 
+const THRESHOLD_OPTIONS = [40, 50, 60, 70, 80];
+
 interface AIEnhancementProps {
   originalText: string;
   improvements: SectionImprovement[];
-  apiKey: string;
-  onAccept: (enhancedText: string) => void;
+  keywords: Keyword[]; // as analysed, with their synonyms
+  currentScore: number;
+  // Re-analyzes a candidate text against the same keywords and competitors
+  onRescore: (text: string) => Promise<AnalysisResult>;
+  onAccept: (enhancedText: string, result: AnalysisResult) => void;
   onCancel: () => void;
 }
 
 export function AIEnhancement({ 
   originalText, 
   improvements, 
-  apiKey,
+  keywords,
+  currentScore,
+  onRescore,
   onAccept, 
   onCancel 
 }: AIEnhancementProps) {
   const [enhancedText, setEnhancedText] = useState("");
+  const [streamedText, setStreamedText] = useState("");
+  const [edits, setEdits] = useState<EnhancementEdit[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [scoreThreshold, setScoreThreshold] = useState(60);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [rescored, setRescored] = useState<{ text: string; result: AnalysisResult } | null>(null);
+  const [isRescoring, setIsRescoring] = useState(false);
   const [activeTab, setActiveTab] = useState("preview");
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  // Only these sections are sent to the model; the rest of the copy is kept as is
+  const targeted = improvements.filter(imp => imp.currentScore < scoreThreshold && imp.missingKeywords.length > 0);
+
   const handleEnhance = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    setEnhancedText("");
+    setStreamedText("");
+    setEdits([]);
+    setRejected(new Set());
+    setRescored(null);
     try {
-      const response = await fetch("/api/enhance", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          apiKey,
-          originalText,
-          improvements
-        })
+      const response = await openAIClient.enhance(
+        { originalText, improvements, scoreThreshold, keywords },
+        { signal: controller.signal, onProgress: setStreamedText }
+      );
+      setEnhancedText(response.enhancedContent);
+      setEdits(response.edits);
+    } catch (error: any) {
+      // Stopped by the user or by closing the dialog; a partial rewrite is never applied
+      if (controller.signal.aborted) return;
+      toast({
+        title: "Enhancement Failed",
+        description: error.message || "Failed to enhance content",
+        variant: "destructive"
       });
-
-      if (!response.ok) {
-        throw new Error(await response.text());
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsProcessing(false);
       }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsProcessing(false);
+    setStreamedText("");
+  };
+
+  // While streaming, only completed lines are diffed, against the same number of original
+  // lines, so the diff grows line by line instead of being recomputed for every token
+  const completedText = streamedText.slice(0, streamedText.lastIndexOf("\n") + 1);
+  const pendingLine = streamedText.slice(completedText.length);
+  const streamingDiff = useMemo(() => {
+    if (!completedText) return null;
+    const lineCount = completedText.split("\n").length - 1;
+    const originalPrefix = originalText.split("\n").slice(0, lineCount).join("\n");
+    return <DiffView diff={calculateContextualDiff(originalPrefix, completedText, improvements)} improvements={improvements} />;
+  }, [completedText, originalText, improvements]);
+
+  // Every added/removed segment can be rejected; the text to apply is rebuilt from the choices
+  const diff = useMemo(
+    () => (enhancedText ? calculateContextualDiff(originalText, enhancedText, improvements) : []),
+    [originalText, enhancedText, improvements]
+  );
+  const changeIndexes = diff.flatMap((segment, index) => (segment.type === 'unchanged' ? [] : [index]));
+  const acceptedCount = changeIndexes.filter(index => !rejected.has(index)).length;
+  const finalText = useMemo(() => applyDiffDecisions(diff, rejected), [diff, rejected]);
+  const isScored = rescored !== null && rescored.text === finalText;
 
-      const { enhancedContent } = await response.json();
-      setEnhancedText(enhancedContent);
+  // Both halves of a move are accepted or rejected together, so text is never duplicated or lost
+  const toggleSegment = (index: number) => {
+    const moveId = diff[index].moveId;
+    const indexes = moveId === undefined
+      ? [index]
+      : diff.flatMap((segment, i) => (segment.moveId === moveId ? [i] : []));
+    setRejected(current => {
+      const next = new Set(current);
+      const reject = !next.has(index);
+      indexes.forEach(i => (reject ? next.add(i) : next.delete(i)));
+      return next;
+    });
+  };
+
+  const handleRescore = async () => {
+    const text = finalText;
+    setIsRescoring(true);
+    try {
+      setRescored({ text, result: await onRescore(text) });
     } catch (error: any) {
       toast({
-        title: "Enhancement Failed",
-        description: error.message || "Failed to enhance content",
+        title: "Re-scoring Failed",
+        description: error.message || "Could not score the selected changes",
         variant: "destructive"
       });
     } finally {
-      setIsProcessing(false);
+      setIsRescoring(false);
     }
   };
 
-  // Auto-enhance when component mounts
+  // Keywords the enhanced text actually gained for a section, once the response is in. Overlapping
+  // sections are rewritten together, so the edit is found by position rather than by title.
+  const addedKeywords = (improvement: SectionImprovement) =>
+    edits
+      .find(edit => edit.span.start <= improvement.span.start && improvement.span.start < edit.span.end)
+      ?.keywordsAdded.join(", ");
+
+  // Auto-enhance when component mounts, and stop streaming if the dialog closes mid-way
   useEffect(() => {
     handleEnhance();
+    return () => abortRef.current?.abort();
   }, []);
 
   return (
@@ -83,21 +171,47 @@ export function AIEnhancement({
           </TabsList>
           
           <TabsContent value="preview" className="flex-1 space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor="scoreThreshold" className="text-muted-foreground">Rewrite sections scoring below</label>
+              <select
+                id="scoreThreshold"
+                value={scoreThreshold}
+                onChange={(e) => setScoreThreshold(Number(e.target.value))}
+                disabled={isProcessing}
+                className="h-8 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {THRESHOLD_OPTIONS.map(value => (
+                  <option key={value} value={value}>{value}%</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleEnhance} disabled={isProcessing || targeted.length === 0}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Regenerate
+              </Button>
+            </div>
+
             <Alert className="border-blue-200 bg-blue-50">
               <Lightbulb className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-blue-800">
-                <strong>AI will make these specific changes to your content:</strong>
+                {targeted.length > 0 ? (
+                  <>
+                    <strong>AI will rewrite {targeted.length} of {improvements.length} sections.</strong>{' '}
+                    Sections scoring {scoreThreshold}% or more are left exactly as written.
+                  </>
+                ) : (
+                  <strong>No section with missing keywords scores below {scoreThreshold}%, so nothing will be rewritten.</strong>
+                )}
               </AlertDescription>
             </Alert>
             
             <div className="grid gap-4">
-              {improvements.map((improvement, index) => (
+              {targeted.map((improvement, index) => (
                 <Card key={index} className="border-l-4 border-l-blue-500">
                   <CardHeader className="pb-3">
                     <CardTitle className="text-base flex items-center gap-2">
                       <Badge variant="outline">{improvement.section}</Badge>
                       <span className="text-sm font-normal text-muted-foreground">
-                        Current Score: {improvement.currentScore}%
+                        {formatSpanLines(improvement.span)} · Current Score: {improvement.currentScore}%
                       </span>
                     </CardTitle>
                   </CardHeader>
@@ -131,22 +245,58 @@ export function AIEnhancement({
           </TabsContent>
           
           <TabsContent value="comparison" className="flex-1 overflow-y-auto">
-            {isProcessing ? (
+            {isProcessing && !streamedText ? (
               <div className="flex items-center justify-center h-64">
                 <div className="text-center">
                   <Brain className="h-12 w-12 text-primary animate-pulse mx-auto mb-4" />
                   <p className="text-sm text-muted-foreground">Generating enhanced content...</p>
                 </div>
               </div>
+            ) : isProcessing ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <Progress
+                    value={Math.min(100, (streamedText.length / originalText.length) * 100)}
+                    className="h-2 flex-1"
+                  />
+                  <span className="whitespace-nowrap">
+                    {streamedText.length.toLocaleString()} of ~{originalText.length.toLocaleString()} characters
+                  </span>
+                </div>
+                {streamingDiff}
+                {pendingLine && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap animate-pulse">{pendingLine}</p>
+                )}
+              </div>
             ) : enhancedText ? (
-              <DiffView 
-                original={originalText} 
-                enhanced={enhancedText} 
-                improvements={improvements}
-              />
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {acceptedCount} of {changeIndexes.length} changes accepted
+                  </span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setRejected(new Set())}>
+                      Accept All
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setRejected(new Set(changeIndexes))}>
+                      Reject All
+                    </Button>
+                  </div>
+                </div>
+                <DiffView
+                  diff={diff}
+                  improvements={improvements}
+                  rejected={rejected}
+                  onToggle={toggleSegment}
+                />
+              </div>
             ) : (
-              <div className="text-center text-muted-foreground py-8">
-                No enhanced content available
+              <div className="text-center text-muted-foreground py-8 space-y-3">
+                <p>No enhanced content available</p>
+                <Button variant="outline" size="sm" onClick={handleEnhance}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Try Again
+                </Button>
               </div>
             )}
           </TabsContent>
@@ -165,7 +315,7 @@ export function AIEnhancement({
                         <li>• Add missing keywords naturally</li>
                         <li>• Maintain your original tone</li>
                         <li>• Preserve sentence structure</li>
-                        <li>• Focus on weak sections only</li>
+                        <li>• Rewrite only sections below {scoreThreshold}%</li>
                       </ul>
                     </div>
                     <div>
@@ -187,12 +337,16 @@ export function AIEnhancement({
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {improvements.map((improvement, index) => (
+                    {targeted.map((improvement, index) => (
                       <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded">
                         <div>
                           <div className="font-medium text-sm">{improvement.section}</div>
                           <div className="text-xs text-muted-foreground">
-                            Adding {improvement.missingKeywords.length} keywords
+                            {addedKeywords(improvement) ? (
+                              <>Added: {addedKeywords(improvement)}</>
+                            ) : (
+                              <>Adding {improvement.missingKeywords.length} keywords</>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -211,19 +365,39 @@ export function AIEnhancement({
           </TabsContent>
         </Tabs>
 
-        <DialogFooter className="mt-4">
+        <DialogFooter className="mt-4 sm:items-center">
+          {isScored && (
+            <span className="text-sm text-muted-foreground sm:mr-auto">
+              Score with selected changes: {currentScore}% →{' '}
+              <span className={`font-medium ${rescored.result.mainCopyScore >= currentScore ? 'text-green-600' : 'text-red-600'}`}>
+                {rescored.result.mainCopyScore}%
+              </span>
+            </span>
+          )}
           <Button variant="outline" onClick={onCancel}>
             Cancel
           </Button>
+          {isProcessing && (
+            <Button variant="outline" onClick={handleStop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          )}
+          {/* The selection is always re-scored before it can be applied */}
           <Button 
-            onClick={() => onAccept(enhancedText)} 
-            disabled={isProcessing || !enhancedText}
+            onClick={() => (isScored ? onAccept(rescored.text, rescored.result) : handleRescore())} 
+            disabled={isProcessing || isRescoring || !enhancedText || acceptedCount === 0}
             className="min-w-[140px]"
           >
-            {isProcessing ? (
+            {isProcessing || isRescoring ? (
               <>
                 <Brain className="h-4 w-4 mr-2 animate-spin" />
-                Processing...
+                {isRescoring ? "Scoring..." : "Processing..."}
+              </>
+            ) : !isScored ? (
+              <>
+                <Gauge className="h-4 w-4 mr-2" />
+                Score Selected Changes
               </>
             ) : (
               <>
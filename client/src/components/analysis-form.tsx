@@ -1,11 +1,16 @@
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { analysisRequestSchema, type AnalysisRequest, type AnalysisResult, type Keyword } from "@shared/schema";
+import { analysisRequestSchema, type AnalysisRequest, type AnalysisResult, type Keyword, type EmbeddingProviderId, type ChunkingStrategy, type ScoringStrategy, type Competitor, type TargetPage } from "@shared/schema";
 import { openAIClient } from "@/services/openai-client.service";
+import { EMBEDDING_PROVIDER_PRESETS, DEFAULT_EMBEDDING_CONFIG } from "@/services/embedding-providers";
+import { embeddingCache } from "@/services/embedding-cache";
+import { SCORING_STRATEGIES } from "@/services/scoring-strategies";
+import { CALIBRATED_STRATEGIES } from "@/services/score-calibration";
 import { validateApiKey, rateLimiter, ObfuscatedStorage } from "@/lib/security";
 import { ApiKeyWarning } from "@/components/api-key-warning";
 import { KeywordInput } from "@/components/keyword-input";
+import { ProjectPanel } from "@/components/project-panel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -16,11 +21,11 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { parseKeywords, countWords } from "@/lib/analysis";
-import { Eye, EyeOff, Shield, Brain, HelpCircle } from "lucide-react";
+import { Eye, EyeOff, Shield, Brain, HelpCircle, Trash2, Plus, X } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 
 interface AnalysisFormProps {
-  onAnalysisComplete: (results: AnalysisResult, originalText: string, apiKey: string, competitorText?: string) => void;
+  onAnalysisComplete: (results: AnalysisResult, request: AnalysisRequest) => void;
   isAnalyzing: boolean;
   setIsAnalyzing: (analyzing: boolean) => void;
 }
@@ -29,9 +34,9 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
   const [showApiKey, setShowApiKey] = useState(false);
   const [parsedKeywords, setParsedKeywords] = useState<Keyword[]>([]);
   const [mainCopyWordCount, setMainCopyWordCount] = useState(0);
-  const [competitorCopyWordCount, setCompetitorCopyWordCount] = useState(0);
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const [rateLimitError, setRateLimitError] = useState<string | null>(null);
+  const [cacheEntries, setCacheEntries] = useState(0);
   const { toast } = useToast();
 
   const form = useForm<AnalysisRequest & { keywordsRaw: string }>({
@@ -41,17 +46,63 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
       keywords: [],
       keywordsRaw: "", // Add this
       mainCopy: "",
-      competitorCopy: "",
-      analysisMode: "full"
+      pageName: "",
+      competitors: [{ name: "Competitor 1", copy: "" }],
+      analysisMode: "full",
+      chunkingStrategy: "auto",
+      scoringStrategy: "centroid",
+      calibrateScores: false,
+      embedding: DEFAULT_EMBEDDING_CONFIG
     }
   });
 
+  const { fields: competitorFields, append: appendCompetitor, remove: removeCompetitor, replace: replaceCompetitors } = useFieldArray({
+    control: form.control,
+    name: "competitors"
+  });
+  const competitors = form.watch("competitors");
+
+  const embeddingConfig = form.watch("embedding");
+  const providerPreset = EMBEDDING_PROVIDER_PRESETS[embeddingConfig.provider];
+
+  const handleProviderChange = (provider: EmbeddingProviderId) => {
+    const preset = EMBEDDING_PROVIDER_PRESETS[provider];
+    form.setValue("embedding", {
+      provider,
+      model: preset.defaultModel,
+      baseUrl: preset.defaultBaseUrl
+    });
+  };
+
+  const refreshCacheEntries = () => {
+    embeddingCache.count().then(setCacheEntries);
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await embeddingCache.clear();
+      setCacheEntries(0);
+      toast({
+        title: "Cache Cleared",
+        description: "All stored embeddings were removed from this browser",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Could not clear cache",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSubmit = async (data: AnalysisRequest) => {
-    // Validate API key
-    const keyValidation = validateApiKey(data.apiKey);
-    if (!keyValidation.valid) {
-      setApiKeyError(keyValidation.error!);
-      return;
+    // OpenAI keys have a known shape; other providers are validated by their own endpoints
+    if (data.embedding.provider === 'openai') {
+      const keyValidation = validateApiKey(data.apiKey);
+      if (!keyValidation.valid) {
+        setApiKeyError(keyValidation.error!);
+        return;
+      }
     }
 
     // Check rate limit
@@ -68,19 +119,17 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
     setRateLimitError(null);
 
     try {
-      // Initialize OpenAI client
-      openAIClient.initialize(data.apiKey);
+      // Initialize the selected embedding provider
+      openAIClient.initialize(data.apiKey, data.embedding);
       
       // Store API key in secure session storage (optional)
       ObfuscatedStorage.setItem('temp_api_key', data.apiKey);
       
       // Perform analysis
-      const results = await openAIClient.analyze({
-        ...data,
-        keywords: parsedKeywords
-      });
+      const request = { ...data, keywords: parsedKeywords };
+      const results = await openAIClient.analyze(request);
       
-      onAnalysisComplete(results, data.mainCopy, data.apiKey, data.competitorCopy);
+      onAnalysisComplete(results, request);
       
       toast({
         title: "Analysis Complete",
@@ -94,6 +143,7 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
       });
     } finally {
       setIsAnalyzing(false);
+      refreshCacheEntries();
       // Clear API key from client
       openAIClient.destroy();
     }
@@ -101,18 +151,53 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
 
 
 
+  // Auto-organizing keywords needs their embeddings before any analysis has run
+  const handleEmbedKeywords = async (texts: string[]) => {
+    const { apiKey, embedding } = form.getValues();
+    if (embedding.provider === 'openai' && !validateApiKey(apiKey).valid) {
+      throw new Error("Enter a valid OpenAI API key to organize keywords");
+    }
+
+    openAIClient.initialize(apiKey, embedding);
+    try {
+      return await openAIClient.embedKeywords(texts);
+    } finally {
+      refreshCacheEntries();
+      openAIClient.destroy();
+    }
+  };
+
   const handleMainCopyChange = (value: string) => {
     setMainCopyWordCount(countWords(value));
     form.setValue("mainCopy", value);
   };
 
-  const handleCompetitorCopyChange = (value: string) => {
-    setCompetitorCopyWordCount(countWords(value));
-    form.setValue("competitorCopy", value);
+  const handleApplyKeywords = (keywords: Keyword[]) => {
+    setParsedKeywords(keywords);
+    form.setValue("keywords", keywords);
+    form.setValue("keywordsRaw", keywords.map(k => k.text).join(', '));
+  };
+
+  const handleApplyCompetitors = (roster: Competitor[]) => {
+    replaceCompetitors(roster.map(c => ({ ...c })));
+  };
+
+  const handleApplyPage = (page: TargetPage) => {
+    form.setValue("pageName", page.name);
+    handleMainCopyChange(page.copy);
+  };
+
+  const handleAddCompetitor = () => {
+    // Pick the first free default name so names stay unique after removals
+    const names = new Set(competitors.map(c => c.name));
+    let n = competitors.length + 1;
+    while (names.has(`Competitor ${n}`)) n++;
+    appendCompetitor({ name: `Competitor ${n}`, copy: "" });
   };
 
   // Clear session on unmount
   useEffect(() => {
+    refreshCacheEntries();
     return () => {
       ObfuscatedStorage.removeItem('temp_api_key');
       openAIClient.destroy();
@@ -138,13 +223,13 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
             <div className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="apiKey">
-                  OpenAI API Key <span className="text-destructive">*</span>
+                  {providerPreset.label} API Key {providerPreset.requiresApiKey && <span className="text-destructive">*</span>}
                 </Label>
                 <div className="relative">
                   <Input
                     id="apiKey"
                     type={showApiKey ? "text" : "password"}
-                    placeholder="sk-..."
+                    placeholder={embeddingConfig.provider === 'openai' ? "sk-..." : "API key"}
                     {...form.register("apiKey")}
                     className="pr-10"
                     autoComplete="off"
@@ -165,8 +250,12 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
                     <AlertDescription>{apiKeyError}</AlertDescription>
                   </Alert>
                 )}
+                {form.formState.errors.apiKey && (
+                  <p className="text-xs text-destructive">{form.formState.errors.apiKey.message}</p>
+                )}
                 <p className="text-xs text-muted-foreground">
                   Your API key is processed locally in your browser and never sent to our servers.
+                  {!providerPreset.requiresApiKey && " Local servers usually don't need one."}
                 </p>
               </div>
               
@@ -183,6 +272,17 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
           </CardContent>
         </Card>
 
+        {/* Project Workspace */}
+        <ProjectPanel
+          keywords={parsedKeywords}
+          competitors={competitors}
+          pageName={form.watch("pageName") || ""}
+          mainCopy={form.watch("mainCopy")}
+          onApplyKeywords={handleApplyKeywords}
+          onApplyCompetitors={handleApplyCompetitors}
+          onApplyPage={handleApplyPage}
+        />
+
         {/* Input Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Keywords Input */}
@@ -199,6 +299,7 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
                   setParsedKeywords(keywords);
                   form.setValue("keywords", keywords);
                 }}
+                embedKeywords={isAnalyzing ? undefined : handleEmbedKeywords}
               />
             </CardContent>
           </Card>
@@ -228,24 +329,149 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
                     </div>
                   </RadioGroup>
                   <p className="mt-2 text-xs text-muted-foreground">
-                    Full mode analyzes the entire document. Chunked mode splits text into ~500-word sections for detailed analysis.
+                    Full mode analyzes the entire document. Chunked mode scores each section of your page separately for detailed analysis.
+                  </p>
+
+                  {form.watch("analysisMode") === "chunked" && (
+                    <div className="mt-3 space-y-2">
+                      <Label htmlFor="chunkingStrategy" className="text-sm">Split Sections By</Label>
+                      <select
+                        id="chunkingStrategy"
+                        value={form.watch("chunkingStrategy")}
+                        onChange={(e) => form.setValue("chunkingStrategy", e.target.value as ChunkingStrategy)}
+                        className="w-full h-9 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <option value="auto">Automatic (headings, then paragraphs)</option>
+                        <option value="headings">HTML / Markdown headings</option>
+                        <option value="paragraphs">Paragraphs</option>
+                        <option value="sliding-window">Fixed-size windows</option>
+                      </select>
+                      <p className="text-xs text-muted-foreground">
+                        Sections longer than ~450 words are split into overlapping parts.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 space-y-2">
+                  <Label htmlFor="scoringStrategy" className="text-sm font-medium">Scoring Strategy</Label>
+                  <select
+                    id="scoringStrategy"
+                    value={form.watch("scoringStrategy")}
+                    onChange={(e) => form.setValue("scoringStrategy", e.target.value as ScoringStrategy)}
+                    className="w-full h-9 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {Object.entries(SCORING_STRATEGIES).map(([id, strategy]) => (
+                      <option key={id} value={id}>{strategy.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    {SCORING_STRATEGIES[form.watch("scoringStrategy")].description}
+                  </p>
+                  <div className="flex items-center gap-2 pt-1">
+                    <input
+                      id="calibrateScores"
+                      type="checkbox"
+                      checked={form.watch("calibrateScores")}
+                      onChange={(e) => form.setValue("calibrateScores", e.target.checked)}
+                      disabled={!CALIBRATED_STRATEGIES.includes(form.watch("scoringStrategy"))}
+                      className="h-4 w-4 accent-primary"
+                    />
+                    <Label htmlFor="calibrateScores" className="text-sm">Also show calibrated scores</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {CALIBRATED_STRATEGIES.includes(form.watch("scoringStrategy"))
+                      ? "Raw scores cluster in a narrow band that depends on the embedding model. The calibrated scale puts 0 at a typical off-topic page and 100 at a typical on-topic match for the selected model, measured on reference texts bundled with the app."
+                      : "Calibration is available for the centroid and best-section strategies."}
                   </p>
                 </div>
 
+                <div className="border-t pt-4 space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="embeddingProvider" className="text-sm font-medium">Embedding Provider</Label>
+                    <select
+                      id="embeddingProvider"
+                      value={embeddingConfig.provider}
+                      onChange={(e) => handleProviderChange(e.target.value as EmbeddingProviderId)}
+                      className="w-full h-9 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {Object.entries(EMBEDDING_PROVIDER_PRESETS).map(([id, preset]) => (
+                        <option key={id} value={id}>{preset.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="embeddingModel" className="text-sm">
+                      {embeddingConfig.provider === 'azure-openai' ? 'Deployment Name' : 'Model'}
+                    </Label>
+                    <Input
+                      id="embeddingModel"
+                      value={embeddingConfig.model}
+                      onChange={(e) => form.setValue("embedding.model", e.target.value)}
+                      spellCheck={false}
+                    />
+                  </div>
+
+                  {(providerPreset.requiresBaseUrl || providerPreset.defaultBaseUrl) && (
+                    <div className="space-y-2">
+                      <Label htmlFor="embeddingBaseUrl" className="text-sm">
+                        {embeddingConfig.provider === 'azure-openai' ? 'Azure Endpoint' : 'Endpoint URL'}
+                      </Label>
+                      <Input
+                        id="embeddingBaseUrl"
+                        placeholder={embeddingConfig.provider === 'azure-openai' ? "https://your-resource.openai.azure.com" : providerPreset.defaultBaseUrl}
+                        value={embeddingConfig.baseUrl || ""}
+                        onChange={(e) => form.setValue("embedding.baseUrl", e.target.value || undefined)}
+                        spellCheck={false}
+                      />
+                      {form.formState.errors.embedding?.baseUrl && (
+                        <p className="text-xs text-destructive">{form.formState.errors.embedding.baseUrl.message}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {embeddingConfig.provider === 'openai-compatible' && (
+                    <p className="text-xs text-muted-foreground">
+                      Works with Ollama, llama.cpp and other servers exposing <code>/v1/embeddings</code> on localhost
+                      or 127.0.0.1. Your content never leaves your machine.
+                    </p>
+                  )}
+                </div>
+
                 <div className="border-t pt-4">
                   <h4 className="text-sm font-medium mb-2">Processing Details</h4>
                   <div className="text-xs text-muted-foreground space-y-1">
                     <div className="flex justify-between">
                       <span>Model:</span>
-                      <span className="font-medium">text-embedding-3-small</span>
+                      <span className="font-medium">{embeddingConfig.model}</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Dimensions:</span>
-                      <span className="font-medium">1,536</span>
+                      <span className="font-medium">{embeddingConfig.dimensions?.toLocaleString() || "Model default"}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Est. Cost:</span>
-                      <span className="font-medium">~$0.0002/analysis</span>
+                    {embeddingConfig.provider === 'openai' && (
+                      <div className="flex justify-between">
+                        <span>Est. Cost:</span>
+                        <span className="font-medium">~$0.0002/analysis</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center">
+                      <span>Embedding Cache:</span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-medium">{cacheEntries.toLocaleString()} entries</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={handleClearCache}
+                          disabled={cacheEntries === 0}
+                        >
+                          <Trash2 className="h-3 w-3 mr-1" />
+                          Clear cache
+                        </Button>
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -263,9 +489,14 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
+                <Input
+                  placeholder="Page name or URL (optional, groups runs in history)"
+                  {...form.register("pageName")}
+                />
                 <Textarea
                   placeholder="Paste your content here for analysis..."
                   rows={12}
+                  value={form.watch("mainCopy")}
                   onChange={(e) => handleMainCopyChange(e.target.value)}
                   className="resize-none"
                 />
@@ -283,23 +514,61 @@ export function AnalysisForm({ onAnalysisComplete, isAnalyzing, setIsAnalyzing }
           {/* Competitor Copy */}
           <Card className="bg-white rounded-lg border border-gray-200 shadow-sm">
             <CardHeader className="pb-4">
-              <CardTitle className="text-lg font-semibold">Competitor Content</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg font-semibold">Competitor Content</CardTitle>
+                <Badge variant="secondary" className="text-xs">
+                  {competitorFields.length}/10
+                </Badge>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                <Textarea
-                  placeholder="Paste competitor content here for comparison..."
-                  rows={12}
-                  onChange={(e) => handleCompetitorCopyChange(e.target.value)}
-                  className="resize-none"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>{competitorCopyWordCount} words</span>
-                  <span>Max: 4,000 words</span>
-                </div>
-                {form.formState.errors.competitorCopy && (
-                  <p className="text-xs text-destructive">{form.formState.errors.competitorCopy.message}</p>
+              <div className="space-y-4 max-h-[640px] overflow-y-auto pr-1">
+                {competitorFields.map((field, index) => (
+                  <div key={field.id} className="space-y-2 border rounded-md p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Competitor name or URL"
+                        {...form.register(`competitors.${index}.name`)}
+                        className="h-8 text-sm"
+                      />
+                      {competitorFields.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeCompetitor(index)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <Textarea
+                      placeholder="Paste competitor content here for comparison..."
+                      rows={competitorFields.length > 1 ? 6 : 12}
+                      {...form.register(`competitors.${index}.copy`)}
+                      className="resize-none"
+                    />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{countWords(competitors[index]?.copy || "")} words</span>
+                      <span>Max: 4,000 words</span>
+                    </div>
+                    {form.formState.errors.competitors?.[index]?.name && (
+                      <p className="text-xs text-destructive">{form.formState.errors.competitors[index]?.name?.message}</p>
+                    )}
+                    {form.formState.errors.competitors?.[index]?.copy && (
+                      <p className="text-xs text-destructive">{form.formState.errors.competitors[index]?.copy?.message}</p>
+                    )}
+                  </div>
+                ))}
+                {competitorFields.length < 10 && (
+                  <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleAddCompetitor}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Competitor
+                  </Button>
                 )}
+                <p className="text-xs text-muted-foreground">
+                  Add the top-ranking pages for your query to compare against the field, not just one page.
+                </p>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,96 @@
+import { type AnalysisResult } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { calibrateScore } from "@/services/score-calibration";
+import { Trophy } from "lucide-react";
+
+interface CompetitorLeaderboardProps {
+  results: AnalysisResult;
+}
+
+export function CompetitorLeaderboard({ results }: CompetitorLeaderboardProps) {
+  const ranking = [
+    { name: "Your Content", score: results.mainCopyScore, isYou: true },
+    ...results.competitors.map(c => ({ name: c.name, score: c.score, isYou: false }))
+  ].sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="space-y-8">
+      {/* Leaderboard */}
+      <div className="space-y-2">
+        {ranking.map((entry, index) => (
+          <div
+            key={entry.name}
+            className={`flex items-center gap-3 p-2 rounded-md ${entry.isYou ? 'bg-primary/5 border border-primary/30' : ''}`}
+          >
+            <span className="w-6 text-sm font-semibold text-muted-foreground text-right">{index + 1}</span>
+            <span className={`w-48 truncate text-sm ${entry.isYou ? 'font-semibold' : ''}`} title={entry.name}>
+              {entry.name}
+            </span>
+            <Progress
+              value={entry.score}
+              className={`flex-1 h-2 ${entry.isYou ? '' : '[&>div]:bg-muted-foreground'}`}
+            />
+            <span className="w-14 text-right text-sm font-medium">{entry.score}%</span>
+            {results.calibration && (
+              <span className="w-12 text-right text-xs text-muted-foreground" title="Calibrated score (0-100)">
+                {calibrateScore(entry.score, results.calibration)}
+              </span>
+            )}
+            {index === 0 && <Trophy className="h-4 w-4 text-yellow-500" />}
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground pt-1">
+          Competitor median: {results.competitorMedianScore}%
+        </p>
+      </div>
+
+      {/* Best competitor per keyword */}
+      <div>
+        <h4 className="text-sm font-medium mb-3">Semantic Coverage by Keyword</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="text-left font-medium py-2 pr-3">Keyword</th>
+                <th className="text-right font-medium py-2 px-2">You</th>
+                {results.competitors.map(c => (
+                  <th key={c.name} className="text-right font-medium py-2 px-2 max-w-[120px] truncate" title={c.name}>
+                    {c.name}
+                  </th>
+                ))}
+                <th className="text-left font-medium py-2 pl-3">Best Competitor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.keywordAnalysis.map(ka => (
+                <tr key={ka.keyword} className="border-b last:border-0">
+                  <td className="py-2 pr-3 font-medium">{ka.keyword}</td>
+                  <td className="py-2 px-2 text-right font-semibold">{ka.semanticCoverage}%</td>
+                  {results.competitors.map(c => {
+                    const coverage = ka.competitorCoverage.find(cc => cc.name === c.name);
+                    const isBest = c.name === ka.bestCompetitor;
+                    return (
+                      <td
+                        key={c.name}
+                        className={`py-2 px-2 text-right ${isBest ? 'font-semibold text-primary' : 'text-muted-foreground'}`}
+                        title={coverage ? `${coverage.mentions} direct mentions` : undefined}
+                      >
+                        {coverage?.semanticCoverage ?? '-'}%
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 pl-3">
+                    <Badge variant={ka.competitorAdvantage ? "destructive" : "outline"} className="text-xs">
+                      {ka.bestCompetitor} ({ka.competitorSemanticCoverage}%)
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
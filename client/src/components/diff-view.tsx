@@ -1,43 +1,82 @@
-import { DiffSegment, calculateContextualDiff } from "@/lib/text-analysis";
+import { type KeyboardEvent } from "react";
+import { type DiffSegment } from "@/lib/text-analysis";
 import { type SectionImprovement } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Info } from "lucide-react";
 
 interface DiffViewProps {
-  original: string;
-  enhanced: string;
+  diff: DiffSegment[];
   improvements: SectionImprovement[];
+  // Indexes of rejected added/removed segments; without onToggle the diff is read-only
+  rejected?: Set<number>;
+  onToggle?: (index: number) => void;
 }
 
-export function DiffView({ original, enhanced, improvements }: DiffViewProps) {
-  const diff = calculateContextualDiff(original, enhanced, improvements);
-  
+export function DiffView({ diff, improvements, rejected, onToggle }: DiffViewProps) {
+  const isRejected = (index: number) => rejected?.has(index) ?? false;
+  const toggleProps = (index: number) => onToggle ? {
+    role: "button",
+    tabIndex: 0,
+    onClick: () => onToggle(index),
+    onKeyDown: (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onToggle(index);
+      }
+    }
+  } : {};
+
   return (
     <TooltipProvider>
       <div className="space-y-4">
         <div className="p-4 bg-white rounded-lg border">
-          <div className="prose prose-sm max-w-none leading-relaxed">
+          {/* Segments carry their own whitespace, so line breaks are rendered as written */}
+          <div className="prose prose-sm max-w-none leading-relaxed whitespace-pre-wrap">
             {diff.map((segment, index) => (
               <span key={index} className="inline">
                 {segment.type === 'unchanged' && (
                   <span className="text-gray-700">{segment.text}</span>
                 )}
                 {segment.type === 'removed' && (
-                  <span className="bg-red-100 text-red-700 line-through px-1 rounded">
+                  <span
+                    {...toggleProps(index)}
+                    title={onToggle ? (isRejected(index) ? "Removal rejected - click to remove" : "Click to keep this text") : undefined}
+                    className={`px-1 rounded ${onToggle ? 'cursor-pointer' : ''} ${
+                      isRejected(index)
+                        ? 'text-gray-700 border border-dashed border-red-300'
+                        : segment.moveId !== undefined
+                          ? 'bg-blue-50 text-blue-700 line-through'
+                          : 'bg-red-100 text-red-700 line-through'
+                    }`}
+                  >
                     {segment.text}
                   </span>
                 )}
                 {segment.type === 'added' && (
                   <Tooltip>
                     <TooltipTrigger asChild>
-                      <span className="bg-green-100 text-green-700 px-2 py-1 rounded font-medium cursor-help border-b-2 border-green-300">
+                      <span
+                        {...toggleProps(index)}
+                        className={`px-2 py-1 rounded font-medium border-b-2 ${onToggle ? 'cursor-pointer' : 'cursor-help'} ${
+                          isRejected(index)
+                            ? 'bg-gray-100 text-gray-400 line-through border-gray-300'
+                            : segment.moveId !== undefined
+                              ? 'bg-blue-100 text-blue-700 border-blue-300'
+                              : 'bg-green-100 text-green-700 border-green-300'
+                        }`}
+                      >
                         {segment.text}
                         <Info className="inline h-3 w-3 ml-1" />
                       </span>
                     </TooltipTrigger>
                     <TooltipContent className="max-w-xs">
                       <div className="space-y-2">
+                        {onToggle && (
+                          <div className="font-medium">
+                            {isRejected(index) ? "Rejected - click to accept" : "Accepted - click to reject"}
+                          </div>
+                        )}
                         {segment.keywordAdded && (
                           <div>
                             <strong>Keyword Added:</strong> {segment.keywordAdded}
@@ -57,7 +96,6 @@ export function DiffView({ original, enhanced, improvements }: DiffViewProps) {
                     </TooltipContent>
                   </Tooltip>
                 )}
-                {index < diff.length - 1 && ' '}
               </span>
             ))}
           </div>
@@ -96,6 +134,13 @@ export function DiffView({ original, enhanced, improvements }: DiffViewProps) {
             <div className="w-4 h-4 bg-red-100 border border-red-200 rounded" />
             <span>Removed text</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-blue-100 border border-blue-200 rounded" />
+            <span>Moved text</span>
+          </div>
+          {onToggle && (
+            <span>Click a change to accept or reject it</span>
+          )}
         </div>
       </div>
     </TooltipProvider>
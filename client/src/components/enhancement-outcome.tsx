@@ -0,0 +1,125 @@
+import { type AnalysisResult } from "@shared/schema";
+import { compareWithPredictions, type LiftObservation } from "@/lib/analysis";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, Copy, Target } from "lucide-react";
+
+interface EnhancementOutcomeProps {
+  before: AnalysisResult;
+  after: AnalysisResult;
+  observations: LiftObservation[]; // history the predictions were calibrated from
+  enhancedText: string;
+  onCopy: (text: string) => void;
+}
+
+function formatLift(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}`;
+}
+
+export function EnhancementOutcome({ before, after, observations, enhancedText, onCopy }: EnhancementOutcomeProps) {
+  const outcome = compareWithPredictions(before, after, observations);
+  const predictedLift = Math.round((outcome.predictedScore - outcome.scoreBefore) * 10) / 10;
+  const actualLift = Math.round((outcome.actualScore - outcome.scoreBefore) * 10) / 10;
+  const sameModel = before.embedding.model === after.embedding.model;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Predicted vs Actual
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Your enhanced content was re-analyzed against the same keywords and competitors
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Overall */}
+        <div className="flex items-center justify-center gap-6 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg">
+          <div className="text-center">
+            <div className="text-xs text-muted-foreground">Before</div>
+            <div className="text-3xl font-bold text-gray-700">{outcome.scoreBefore}%</div>
+          </div>
+          <ArrowRight className="h-5 w-5 text-muted-foreground" />
+          <div className="text-center">
+            <div className="text-xs text-muted-foreground">Predicted</div>
+            <div className="text-3xl font-bold text-gray-500">{outcome.predictedScore}%</div>
+            <div className="text-xs text-muted-foreground">{formatLift(predictedLift)}</div>
+          </div>
+          <div className="text-center">
+            <div className="text-xs text-muted-foreground">Actual</div>
+            <div className={`text-3xl font-bold ${actualLift >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {outcome.actualScore}%
+            </div>
+            <div className="text-xs text-muted-foreground">{formatLift(actualLift)}</div>
+          </div>
+        </div>
+
+        {!sameModel && (
+          <p className="text-xs text-yellow-700 bg-yellow-50 p-2 rounded">
+            The re-analysis used a different embedding model ({after.embedding.model} instead of {before.embedding.model}),
+            so the actual change partly reflects the model rather than your edits.
+          </p>
+        )}
+
+        {/* Per keyword: predicted lift vs the change in the keyword's share of the score */}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-xs text-muted-foreground">
+              <th className="text-left font-medium py-2 pr-3">Keyword</th>
+              <th className="text-right font-medium py-2 px-2">Mentions</th>
+              <th className="text-right font-medium py-2 px-2">Coverage</th>
+              <th className="text-right font-medium py-2 px-2">Predicted</th>
+              <th className="text-right font-medium py-2 pl-2">Actual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {outcome.keywords.map(row => (
+              <tr key={row.keyword} className="border-b last:border-0">
+                <td className="py-2 pr-3">{row.keyword}</td>
+                <td className="py-2 px-2 text-right text-muted-foreground">
+                  {row.mentionsBefore} → {row.mentionsAfter}
+                </td>
+                <td className="py-2 px-2 text-right text-muted-foreground">
+                  {row.coverageBefore}% → {row.coverageAfter}%
+                </td>
+                <td className="py-2 px-2 text-right">
+                  {row.predictedLift !== 0 ? formatLift(row.predictedLift) : '-'}
+                </td>
+                <td className="py-2 pl-2 text-right">
+                  {row.actualLift === null ? (
+                    <Badge variant="outline" className="text-xs">n/a</Badge>
+                  ) : (
+                    <Badge
+                      variant={row.actualLift > 0 ? "default" : row.actualLift < 0 ? "destructive" : "secondary"}
+                      className="text-xs"
+                    >
+                      {formatLift(row.actualLift)}
+                    </Badge>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Actual is the change in the points of your score attributable to each keyword; these add up to the overall change.
+        </p>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium">Enhanced Content</h4>
+            <Button variant="outline" size="sm" onClick={() => onCopy(enhancedText)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          <div className="p-3 bg-gray-50 rounded border text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
+            {enhancedText}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
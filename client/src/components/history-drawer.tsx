@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { type AnalysisRun } from "@shared/schema";
+import { analysisHistory } from "@/services/analysis-history";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RunComparison } from "@/components/run-comparison";
+import { useToast } from "@/hooks/use-toast";
+import { FolderOpen, GitCompare, Trash2 } from "lucide-react";
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenRun: (run: AnalysisRun) => void;
+  activeRunId?: string;
+}
+
+export function HistoryDrawer({ open, onOpenChange, onOpenRun, activeRunId }: HistoryDrawerProps) {
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const { toast } = useToast();
+
+  const refreshRuns = () => {
+    analysisHistory.list().then(setRuns).catch(() => setRuns([]));
+  };
+
+  useEffect(() => {
+    if (open) refreshRuns();
+  }, [open]);
+
+  // Runs are listed newest first, so grouping keeps that order within each page
+  const pages = new Map<string, AnalysisRun[]>();
+  runs.forEach(run => {
+    pages.set(run.pageName, [...(pages.get(run.pageName) || []), run]);
+  });
+
+  const selectedRuns = runs
+    .filter(run => selectedIds.includes(run.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const canCompare = selectedRuns.length === 2 && selectedRuns[0].pageName === selectedRuns[1].pageName;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => {
+      if (ids.includes(id)) return ids.filter(selected => selected !== id);
+      // Keep the two most recent picks
+      return [...ids, id].slice(-2);
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await analysisHistory.delete(id);
+      setSelectedIds(ids => ids.filter(selected => selected !== id));
+      refreshRuns();
+    } catch (error: any) {
+      toast({
+        title: "Could not delete analysis",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await analysisHistory.clear();
+      setRuns([]);
+      setSelectedIds([]);
+      toast({
+        title: "History Cleared",
+        description: "All saved analyses were removed from this browser",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Could not clear history",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Analysis History</SheetTitle>
+            <SheetDescription>
+              Runs are saved in this browser. Select two runs of the same page to compare them.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex items-center gap-2 mt-4">
+            <Button size="sm" disabled={!canCompare} onClick={() => setShowComparison(true)}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare Selected
+            </Button>
+            {selectedRuns.length === 2 && !canCompare && (
+              <span className="text-xs text-muted-foreground">Pick two runs of the same page</span>
+            )}
+          </div>
+
+          <div className="mt-6 space-y-6">
+            {runs.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No saved analyses yet. Every completed analysis is saved here automatically.
+              </p>
+            )}
+
+            {Array.from(pages.entries()).map(([pageName, pageRuns]) => (
+              <div key={pageName}>
+                <h4 className="text-sm font-medium mb-2 truncate" title={pageName}>{pageName}</h4>
+                <div className="space-y-2">
+                  {pageRuns.map((run, index) => {
+                    const previous = pageRuns[index + 1];
+                    const delta = previous
+                      ? Math.round((run.result.mainCopyScore - previous.result.mainCopyScore) * 10) / 10
+                      : null;
+                    const isSelected = selectedIds.includes(run.id);
+
+                    return (
+                      <div
+                        key={run.id}
+                        className={`p-3 border rounded-md ${isSelected ? 'border-primary bg-primary/5' : 'border-gray-200'}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="text-sm font-medium">
+                              {run.result.mainCopyScore}%
+                              {delta !== null && (
+                                <span className={`ml-2 text-xs ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                  {delta > 0 ? '+' : ''}{delta}
+                                </span>
+                              )}
+                              {run.id === activeRunId && (
+                                <Badge variant="secondary" className="ml-2 text-xs">Viewing</Badge>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(run.createdAt).toLocaleString()} · {run.keywords.length} keywords ·{' '}
+                              {run.competitors.length} competitor{run.competitors.length !== 1 ? 's' : ''} · {run.analysisMode}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              size="sm"
+                              variant={isSelected ? "secondary" : "ghost"}
+                              onClick={() => toggleSelected(run.id)}
+                              title="Select for comparison"
+                            >
+                              <GitCompare className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                onOpenRun(run);
+                                onOpenChange(false);
+                              }}
+                              title="Open this run"
+                            >
+                              <FolderOpen className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDelete(run.id)}
+                              title="Delete this run"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {runs.length > 0 && (
+            <div className="mt-8 pt-4 border-t">
+              <Button variant="outline" size="sm" className="w-full" onClick={handleClear}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear History
+              </Button>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {canCompare && (
+        <Dialog open={showComparison} onOpenChange={setShowComparison}>
+          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Compare Runs: {selectedRuns[0].pageName}</DialogTitle>
+            </DialogHeader>
+            <RunComparison before={selectedRuns[0]} after={selectedRuns[1]} />
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from "react";
+import { type Keyword } from "@shared/schema";
+import {
+  type ImportColumn,
+  type ColumnMapping,
+  type ParsedTable,
+  type VolumeCurve,
+  type VolumeWeighting,
+  VOLUME_CURVES,
+  DEFAULT_VOLUME_WEIGHTING,
+  parseDelimited,
+  guessColumnMapping,
+  importKeywords,
+  formatVolume
+} from "@/lib/keyword-import";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Upload } from "lucide-react";
+
+interface KeywordImportProps {
+  open: boolean;
+  onImport: (keywords: Keyword[]) => void;
+  onCancel: () => void;
+}
+
+const COLUMN_LABELS: Record<ImportColumn, string> = {
+  keyword: "Keyword",
+  searchVolume: "Search Volume",
+  difficulty: "Difficulty",
+  intent: "Intent",
+  group: "Group"
+};
+
+const PREVIEW_ROWS = 10;
+
+const selectClassName = "w-full h-9 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary";
+
+const EMPTY_TABLE: ParsedTable = { headers: [], rows: [] };
+
+export function KeywordImport({ open, onImport, onCancel }: KeywordImportProps) {
+  const [source, setSource] = useState("");
+  const [table, setTable] = useState<ParsedTable>(EMPTY_TABLE);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessColumnMapping([]));
+  const [weighting, setWeighting] = useState<VolumeWeighting>(DEFAULT_VOLUME_WEIGHTING);
+
+  useEffect(() => {
+    if (open) loadSource("");
+  }, [open]);
+
+  const loadSource = (text: string) => {
+    const parsed = text.trim() ? parseDelimited(text) : EMPTY_TABLE;
+    setSource(text);
+    setTable(parsed);
+    setMapping(guessColumnMapping(parsed.headers));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) loadSource(await file.text());
+  };
+
+  // Weights outside the schema's range would fail validation at analysis time
+  const updateWeightBound = (bound: 'minWeight' | 'maxWeight', value: string) => {
+    const number = parseFloat(value);
+    if (isNaN(number)) return;
+    setWeighting(current => ({ ...current, [bound]: Math.min(10, Math.max(0.1, number)) }));
+  };
+
+  const keywords = importKeywords(table, mapping, weighting);
+  const hasVolumes = keywords.some(k => k.searchVolume !== undefined);
+  // A lowest-volume weight above the highest would weight the long tail over the head terms
+  const invertedWeights = hasVolumes && weighting.curve !== 'flat' && weighting.minWeight > weighting.maxWeight;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Keywords</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="keywordFile">CSV or TSV export</Label>
+            <div className="flex items-center gap-2">
+              <Upload className="h-4 w-4 text-muted-foreground" />
+              <input
+                id="keywordFile"
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="text-sm"
+              />
+            </div>
+            <textarea
+              className="w-full min-h-[100px] px-3 py-2 text-xs font-mono border rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder={"Or paste rows from a spreadsheet, header row first:\nKeyword\tVolume\tKD\tIntent\ncontent marketing\t12100\t67\tInformational"}
+              value={source}
+              onChange={(e) => loadSource(e.target.value)}
+            />
+          </div>
+
+          {table.headers.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {(Object.keys(COLUMN_LABELS) as ImportColumn[]).map(column => (
+                  <div key={column} className="space-y-1">
+                    <Label htmlFor={`column-${column}`} className="text-xs">{COLUMN_LABELS[column]}</Label>
+                    <select
+                      id={`column-${column}`}
+                      value={mapping[column] ?? ""}
+                      onChange={(e) => setMapping({ ...mapping, [column]: e.target.value === "" ? null : Number(e.target.value) })}
+                      className={selectClassName}
+                    >
+                      {column !== 'keyword' && <option value="">None</option>}
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="volumeCurve" className="text-xs">Volume to Weight</Label>
+                  <select
+                    id="volumeCurve"
+                    value={weighting.curve}
+                    onChange={(e) => setWeighting({ ...weighting, curve: e.target.value as VolumeCurve })}
+                    disabled={!hasVolumes}
+                    className={selectClassName}
+                  >
+                    {Object.entries(VOLUME_CURVES).map(([id, curve]) => (
+                      <option key={id} value={id}>{curve.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="minWeight" className="text-xs">Lowest Volume Weight</Label>
+                  <Input
+                    id="minWeight"
+                    type="number"
+                    step="0.1"
+                    min="0.1"
+                    max="10"
+                    defaultValue={weighting.minWeight}
+                    onBlur={(e) => updateWeightBound('minWeight', e.target.value)}
+                    disabled={!hasVolumes}
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="maxWeight" className="text-xs">Highest Volume Weight</Label>
+                  <Input
+                    id="maxWeight"
+                    type="number"
+                    step="0.1"
+                    min="0.1"
+                    max="10"
+                    defaultValue={weighting.maxWeight}
+                    onBlur={(e) => updateWeightBound('maxWeight', e.target.value)}
+                    disabled={!hasVolumes || weighting.curve === 'flat'}
+                    className="h-9"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {hasVolumes
+                  ? `${VOLUME_CURVES[weighting.curve].description}. The highest-volume keyword becomes the main topic.`
+                  : "Map a search volume column to weight keywords by demand; otherwise all are imported as supporting topics."}
+              </p>
+              {invertedWeights && (
+                <p className="text-xs text-destructive">
+                  The lowest volume weight is above the highest; lower it or raise the highest to import.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  Preview ({keywords.length} keyword{keywords.length !== 1 ? 's' : ''}{table.rows.length > keywords.length ? ` of ${table.rows.length} rows; duplicates, blanks and rows past 50 are skipped` : ''})
+                </h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Keyword</TableHead>
+                      <TableHead className="text-right">Volume</TableHead>
+                      <TableHead className="text-right">Difficulty</TableHead>
+                      <TableHead>Intent</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {keywords.slice(0, PREVIEW_ROWS).map((keyword, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="text-sm">
+                          {keyword.text}
+                          {keyword.role === 'main' && <Badge variant="default" className="ml-2 text-xs">Main</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {keyword.searchVolume !== undefined ? formatVolume(keyword.searchVolume) : '–'}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">{keyword.difficulty ?? '–'}</TableCell>
+                        <TableCell className="text-sm capitalize">{keyword.intent ?? '–'}</TableCell>
+                        <TableCell className="text-sm">{keyword.group ?? '–'}</TableCell>
+                        <TableCell className="text-right text-sm">{keyword.weight}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {keywords.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">…and {keywords.length - PREVIEW_ROWS} more</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="button" onClick={() => onImport(keywords)} disabled={keywords.length === 0 || invertedWeights}>
+            Replace Keywords with {keywords.length} Imported
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,20 +3,28 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { 
   Tooltip, 
   TooltipContent, 
   TooltipProvider, 
   TooltipTrigger 
 } from "@/components/ui/tooltip";
-import { Target, List, Sparkles, X } from "lucide-react";
-import { type Keyword, type KeywordRole } from "@shared/schema";
+import { Target, List, Sparkles, X, Wand2, Loader2, Upload } from "lucide-react";
+import { type Keyword, type KeywordRole, type KeywordIntent } from "@shared/schema";
+import { type KeywordOrganization, organizeKeywords } from "@/lib/keyword-clustering";
+import { KeywordOrganizer } from "@/components/keyword-organizer";
+import { KeywordImport } from "@/components/keyword-import";
+import { formatVolume } from "@/lib/keyword-import";
+import { useToast } from "@/hooks/use-toast";
 
 interface KeywordInputProps {
   value: string;
   onChange: (value: string) => void;
   keywords: Keyword[];
   onKeywordsChange: (keywords: Keyword[]) => void;
+  // Embeds keyword texts for auto-organizing; omitted while that is unavailable (e.g. mid-analysis)
+  embedKeywords?: (texts: string[]) => Promise<number[][]>;
 }
 
 // Map roles to weights for backend calculation
@@ -24,9 +32,27 @@ const roleToWeight = (role: KeywordRole): number => {
   return role === 'main' ? 3 : 1;
 };
 
-export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: KeywordInputProps) {
+const INTENT_OPTIONS: KeywordIntent[] = ['informational', 'navigational', 'commercial', 'transactional'];
+
+// Research metadata from an imported keyword list, e.g. "12.1K/mo · KD 45 · informational"
+function KeywordMetrics({ keyword }: { keyword: Keyword }) {
+  const metrics = [
+    keyword.searchVolume !== undefined ? `${formatVolume(keyword.searchVolume)}/mo` : null,
+    keyword.difficulty !== undefined ? `KD ${keyword.difficulty}` : null,
+    keyword.intent ?? null
+  ].filter(Boolean);
+
+  if (metrics.length === 0) return null;
+  return <span className="text-xs text-gray-500">{metrics.join(' · ')}</span>;
+}
+
+export function KeywordInput({ value, onChange, keywords, onKeywordsChange, embedKeywords }: KeywordInputProps) {
   const [editMode, setEditMode] = useState(false);
   const [keywordRoles, setKeywordRoles] = useState<Keyword[]>([]);
+  const [organizing, setOrganizing] = useState(false);
+  const [organization, setOrganization] = useState<KeywordOrganization | null>(null);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
 
   // Parse keywords when textarea value actually changes (not when roles change internally)
   useEffect(() => {
@@ -34,6 +60,12 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
     const currentText = keywordRoles.map(k => k.text).join(', ');
     if (value === currentText) return; // nothing new – keep existing roles
 
+    // The parent loaded a saved keyword list (e.g. from a project) – adopt its roles instead of re-parsing
+    if (keywords.length > 0 && value === keywords.map(k => k.text).join(', ')) {
+      setKeywordRoles(keywords.map(k => ({ ...k })));
+      return;
+    }
+
     if (!value.trim()) {
       setKeywordRoles([]);
       onKeywordsChange([]);
@@ -45,7 +77,9 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
       for (const line of lines) {
         const trimmed = line.trim();
         if (!trimmed) continue;
-        parsed.push({ 
+        // Keywords that were already listed keep their role, synonyms and imported metadata
+        const existing = keywordRoles.find(k => k.text === trimmed);
+        parsed.push(existing ?? { 
           text: trimmed, 
         role: 'supporting',
         weight: 1,
@@ -56,22 +90,9 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
     onKeywordsChange(limited);
   }, [value]);
 
+  // Several main topics are allowed, one per topic cluster, so other keywords keep their roles
   const updateRole = (index: number, newRole: KeywordRole) => {
-    const updated = [...keywordRoles];
-    
-    // Enforce "only one main topic" rule
-    if (newRole === 'main') {
-      // Set all others to supporting
-      updated.forEach((k, i) => {
-        if (i !== index) {
-          k.role = 'supporting';
-          k.weight = roleToWeight('supporting');
-        }
-      });
-    }
-    
-    updated[index].role = newRole;
-    updated[index].weight = roleToWeight(newRole);
+    const updated = keywordRoles.map((k, i) => (i === index ? { ...k, role: newRole, weight: roleToWeight(newRole) } : k));
     
     setKeywordRoles(updated);
     onKeywordsChange(updated);
@@ -80,6 +101,84 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
     // only the roles have. Avoiding that change prevents a re-parse that would wipe our roles.
   };
 
+  // Comma-separated in the UI; empty lists are dropped so keywords without synonyms stay unchanged
+  const updateSynonyms = (index: number, input: string) => {
+    const synonyms = input.split(',').map(s => s.trim()).filter(Boolean).slice(0, 20);
+    const updated = keywordRoles.map((k, i) => (i === index ? { ...k, synonyms: synonyms.length > 0 ? synonyms : undefined } : k));
+
+    setKeywordRoles(updated);
+    onKeywordsChange(updated);
+  };
+
+  const updateKeyword = (index: number, changes: Partial<Keyword>) => {
+    const updated = keywordRoles.map((k, i) => (i === index ? { ...k, ...changes } : k));
+
+    setKeywordRoles(updated);
+    onKeywordsChange(updated);
+  };
+
+  // Any weight the schema allows; the role select still resets it to the role's default
+  const updateWeight = (index: number, input: string) => {
+    const weight = parseFloat(input);
+    if (isNaN(weight)) return;
+    updateKeyword(index, { weight: Math.round(Math.min(10, Math.max(0.1, weight)) * 10) / 10 });
+  };
+
+  const updateSearchVolume = (index: number, input: string) => {
+    const volume = parseInt(input, 10);
+    updateKeyword(index, { searchVolume: isNaN(volume) || volume < 0 ? undefined : volume });
+  };
+
+  const handleAutoOrganize = async () => {
+    if (!embedKeywords) return;
+    setOrganizing(true);
+    try {
+      const embeddings = await embedKeywords(keywordRoles.map(k => k.text));
+      setOrganization(organizeKeywords(keywordRoles, embeddings));
+    } catch (error: any) {
+      toast({ title: "Could not organize keywords", description: error.message, variant: "destructive" });
+    } finally {
+      setOrganizing(false);
+    }
+  };
+
+  // Each topic's main keyword becomes a main topic and names the topic's group; merged duplicates
+  // live on as synonyms. A keyword can be kept in one pair and dropped in a later one, so its
+  // synonyms are read from the merged list rather than the original keyword.
+  const applyOrganization = (proposal: KeywordOrganization, mergeDuplicates: boolean) => {
+    const mains = new Set(proposal.clusters.map(cluster => cluster.main));
+    const groups = new Map<number, string>();
+    proposal.clusters
+      .filter(cluster => cluster.members.length > 1 && cluster.main !== null)
+      .forEach(cluster => cluster.members.forEach(member => groups.set(member, keywordRoles[cluster.main!].text)));
+
+    let updated = keywordRoles.map((k, i) => {
+      const role: KeywordRole = mains.has(i) ? 'main' : 'supporting';
+      return { ...k, role, weight: roleToWeight(role), group: groups.get(i) ?? k.group };
+    });
+
+    if (mergeDuplicates) {
+      proposal.duplicates.forEach(({ keep, drop }) => {
+        const synonyms = [...(updated[keep].synonyms ?? []), updated[drop].text, ...(updated[drop].synonyms ?? [])];
+        updated[keep] = { ...updated[keep], synonyms: Array.from(new Set(synonyms)).slice(0, 20) };
+      });
+      const dropped = new Set(proposal.duplicates.map(duplicate => duplicate.drop));
+      updated = updated.filter((_, i) => !dropped.has(i));
+    }
+
+    setKeywordRoles(updated);
+    onKeywordsChange(updated);
+    onChange(updated.map(k => k.text).join(', '));
+    setOrganization(null);
+  };
+
+  const applyImport = (imported: Keyword[]) => {
+    setKeywordRoles(imported);
+    onKeywordsChange(imported);
+    onChange(imported.map(k => k.text).join(', '));
+    setImporting(false);
+  };
+
   const setAllSupporting = () => {
     const updated = keywordRoles.map(k => ({
       ...k,
@@ -104,7 +203,7 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
     onKeywordsChange(updated);
   };
 
-  const mainTopic = keywordRoles.find(k => k.role === 'main');
+  const mainTopics = keywordRoles.filter(k => k.role === 'main');
   const supportingTopics = keywordRoles.filter(k => k.role === 'supporting');
 
   // Auto-enable edit mode when keywords are present
@@ -120,6 +219,29 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
         <div className="flex items-center justify-between">
           <Label>Target Keywords</Label>
           <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setImporting(true)}
+              title="Import keywords with search volume, difficulty and intent from a CSV or TSV export"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              Import
+            </Button>
+            {keywordRoles.length > 1 && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleAutoOrganize}
+                disabled={!embedKeywords || organizing}
+                title="Group keywords into topics, propose a main keyword for each and flag near-duplicates"
+              >
+                {organizing ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Wand2 className="h-3 w-3 mr-1" />}
+                Auto-organize
+              </Button>
+            )}
             {keywordRoles.length > 0 && (
               <Button
                 size="sm"
@@ -135,7 +257,7 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
         
         <textarea
           className="w-full min-h-[120px] px-3 py-2 text-sm border rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
-          placeholder="Enter keywords separated by commas or new lines&#10;&#10;Examples:&#10;• AI in content marketing&#10;• practical tips for content creation&#10;• content marketing automation&#10;&#10;After adding keywords, you can set one as your main topic and others as supporting topics."
+          placeholder="Enter keywords separated by commas or new lines&#10;&#10;Examples:&#10;• AI in content marketing&#10;• practical tips for content creation&#10;• content marketing automation&#10;&#10;After adding keywords, you can set your main topics and others as supporting topics."
           value={value}
           onChange={(e) => onChange(e.target.value)}
         />
@@ -184,46 +306,101 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
             {editMode ? (
               <div className="space-y-3">
                 {keywordRoles.map((keyword, index) => (
-                  <div key={`${keyword.text}-${index}`} className="flex items-center justify-between p-3 bg-white rounded-md border">
-                    <div className="flex items-center gap-2">
-                      {keyword.role === 'main' ? (
-                        <Target className="h-4 w-4 text-blue-600" />
-                      ) : (
-                        <List className="h-4 w-4 text-gray-500" />
-                      )}
-                      <span className="font-medium text-sm">{keyword.text}</span>
+                  <div key={`${keyword.text}-${index}`} className="p-3 bg-white rounded-md border space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        {keyword.role === 'main' ? (
+                          <Target className="h-4 w-4 text-blue-600" />
+                        ) : (
+                          <List className="h-4 w-4 text-gray-500" />
+                        )}
+                        <span className="font-medium text-sm">{keyword.text}</span>
+                        <KeywordMetrics keyword={keyword} />
+                      </div>
+                      
+                      {/* Simple native select - much more reliable */}
+                      <select
+                        value={keyword.role}
+                        onChange={(e) => updateRole(index, e.target.value as KeywordRole)}
+                        className="w-[130px] h-8 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <option value="supporting">Supporting</option>
+                        <option value="main">Main Topic</option>
+                      </select>
+                    </div>
+                    <Input
+                      key={`synonyms-${keyword.synonyms?.join(',') ?? ''}`}
+                      defaultValue={keyword.synonyms?.join(', ') ?? ''}
+                      onBlur={(e) => updateSynonyms(index, e.target.value)}
+                      placeholder="Synonyms or acronyms, comma separated (e.g. SEO)"
+                      className="h-8 text-xs"
+                    />
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      <Input
+                        // Remount when the role select resets the weight
+                        key={`weight-${keyword.weight}`}
+                        type="number"
+                        step="0.1"
+                        min="0.1"
+                        max="10"
+                        defaultValue={keyword.weight}
+                        onBlur={(e) => updateWeight(index, e.target.value)}
+                        title="Weight (0.1-10): the keyword's share of the centroid"
+                        className="h-8 text-xs"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        defaultValue={keyword.searchVolume ?? ''}
+                        onBlur={(e) => updateSearchVolume(index, e.target.value)}
+                        placeholder="Monthly searches"
+                        className="h-8 text-xs"
+                      />
+                      <select
+                        value={keyword.intent ?? ''}
+                        onChange={(e) => updateKeyword(index, { intent: (e.target.value || undefined) as KeywordIntent | undefined })}
+                        className="h-8 px-2 text-xs border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <option value="">Intent</option>
+                        {INTENT_OPTIONS.map(intent => (
+                          <option key={intent} value={intent} className="capitalize">{intent}</option>
+                        ))}
+                      </select>
+                      <Input
+                        key={`group-${keyword.group ?? ''}`}
+                        defaultValue={keyword.group ?? ''}
+                        onBlur={(e) => updateKeyword(index, { group: e.target.value.trim().slice(0, 100) || undefined })}
+                        placeholder="Group"
+                        className="h-8 text-xs"
+                      />
                     </div>
-                    
-                    {/* Simple native select - much more reliable */}
-                    <select
-                      value={keyword.role}
-                      onChange={(e) => updateRole(index, e.target.value as KeywordRole)}
-                      className="w-[130px] h-8 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
-                    >
-                      <option value="supporting">Supporting</option>
-                      <option value="main">Main Topic</option>
-                    </select>
                   </div>
                 ))}
                 
-                {keywordRoles.length > 0 && !mainTopic && (
+                {keywordRoles.length > 0 && mainTopics.length === 0 && (
                   <div className="text-xs text-amber-600 bg-amber-50 p-2 rounded-md border border-amber-200">
-                    💡 Tip: Select one keyword as your "Main Topic" for better content focus
+                    💡 Tip: Select a "Main Topic" for each subject your content focuses on
                   </div>
                 )}
               </div>
             ) : (
               <div className="space-y-3">
                 {/* Main Topic Display */}
-                {mainTopic && (
+                {mainTopics.length > 0 && (
                   <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
                     <div className="flex items-center gap-2 mb-1">
                       <Target className="h-4 w-4 text-blue-600" />
-                      <span className="text-xs font-medium text-blue-800 uppercase tracking-wide">Main Topic</span>
+                      <span className="text-xs font-medium text-blue-800 uppercase tracking-wide">
+                        {mainTopics.length > 1 ? "Main Topics" : "Main Topic"}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {mainTopics.map((topic, index) => (
+                        <Badge key={index} variant="default" className="text-sm">
+                          {topic.text}
+                        </Badge>
+                      ))}
                     </div>
-                    <Badge variant="default" className="text-sm">
-                      {mainTopic.text}
-                    </Badge>
                   </div>
                 )}
 
@@ -252,8 +429,8 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
                         <div className="cursor-help">
                           <strong>How this affects your analysis:</strong>
                           <br />
-                          {mainTopic 
-                            ? `Your content will be scored primarily on how well it covers "${mainTopic.text}" with supporting context from your other topics.`
+                          {mainTopics.length > 0
+                            ? `Your content will be scored primarily on how well it covers ${mainTopics.map(t => `"${t.text}"`).join(", ")} with supporting context from your other topics.`
                             : "All topics will be weighted equally in the analysis."
                           }
                         </div>
@@ -261,7 +438,8 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
                       <TooltipContent side="top" className="max-w-xs">
                         <p className="text-xs">
                           The analysis tool looks for semantic similarity between your content and these topics. 
-                          Your main topic gets 3x more influence in the final similarity score.
+                          Each main topic gets 3x more influence in the final similarity score, unless you set
+                          custom weights.
                         </p>
                       </TooltipContent>
                     </Tooltip>
@@ -272,6 +450,19 @@ export function KeywordInput({ value, onChange, keywords, onKeywordsChange }: Ke
           </div>
         </Card>
       )}
+
+      <KeywordImport
+        open={importing}
+        onImport={applyImport}
+        onCancel={() => setImporting(false)}
+      />
+
+      <KeywordOrganizer
+        keywords={keywordRoles}
+        organization={organization}
+        onApply={applyOrganization}
+        onCancel={() => setOrganization(null)}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { type Keyword } from "@shared/schema";
+import { type KeywordOrganization } from "@/lib/keyword-clustering";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Target } from "lucide-react";
+
+interface KeywordOrganizerProps {
+  keywords: Keyword[];
+  organization: KeywordOrganization | null; // dialog is open while set
+  onApply: (organization: KeywordOrganization, mergeDuplicates: boolean) => void;
+  onCancel: () => void;
+}
+
+export function KeywordOrganizer({ keywords, organization, onApply, onCancel }: KeywordOrganizerProps) {
+  const [mergeDuplicates, setMergeDuplicates] = useState(true);
+
+  useEffect(() => {
+    if (organization) setMergeDuplicates(true);
+  }, [organization]);
+
+  const mainCount = organization?.clusters.filter(cluster => cluster.main !== null).length ?? 0;
+
+  return (
+    <Dialog open={organization !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proposed Keyword Organization</DialogTitle>
+        </DialogHeader>
+        {organization && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {organization.clusters.length} topic{organization.clusters.length !== 1 ? 's' : ''} found by embedding
+              similarity. The keyword closest to the rest of its topic is proposed as its main keyword
+              ({mainCount} main, {keywords.length - mainCount - (mergeDuplicates ? organization.duplicates.length : 0)} supporting).
+              Applying also puts each topic's keywords in a group named after its main keyword.
+            </p>
+
+            <div className="space-y-3">
+              {organization.clusters.map((cluster, index) => (
+                <div key={cluster.members.join('-')} className="border rounded-md p-3">
+                  <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                    {cluster.members.length > 1 ? `Topic ${index + 1}` : 'Unrelated keyword'}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {cluster.members.map(member => (
+                      <Badge
+                        key={member}
+                        variant={member === cluster.main ? "default" : "secondary"}
+                        className="text-xs"
+                      >
+                        {member === cluster.main && <Target className="h-3 w-3 mr-1" />}
+                        {keywords[member].text}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {organization.duplicates.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  Near-duplicates
+                </h4>
+                <p className="text-xs text-muted-foreground">
+                  Keywords that say the same thing count twice in the weighted centroid and pull the score towards that phrasing.
+                </p>
+                {organization.duplicates.map(duplicate => (
+                  <div key={duplicate.drop} className="text-sm bg-yellow-50 p-2 rounded">
+                    "{keywords[duplicate.drop].text}" duplicates "{keywords[duplicate.keep].text}" ({duplicate.similarity}% similar)
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <input
+                    id="mergeDuplicates"
+                    type="checkbox"
+                    checked={mergeDuplicates}
+                    onChange={(e) => setMergeDuplicates(e.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  <Label htmlFor="mergeDuplicates" className="text-sm">
+                    Merge each duplicate into the keyword it duplicates, as a synonym
+                  </Label>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="button" onClick={() => organization && onApply(organization, mergeDuplicates)}>
+            Apply Proposal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
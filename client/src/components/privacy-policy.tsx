@@ -28,7 +28,7 @@ export function PrivacyPolicy({ open, onClose }: { open: boolean; onClose: () =>
           <ul>
             <li>Your API key is used only for direct communication with OpenAI</li>
             <li>No data passes through our servers</li>
-            <li>All data is cleared when you close the browser tab</li>
+            <li>Session data is cleared when you close the browser tab; saved history stays on your device until you clear it</li>
           </ul>
 
           <h4>3. Third-Party Services</h4>
@@ -51,6 +51,21 @@ export function PrivacyPolicy({ open, onClose }: { open: boolean; onClose: () =>
           <p>
             This data is automatically deleted when you close the browser tab.
           </p>
+          <p>
+            To avoid paying for the same work twice, embedding vectors are cached in your browser's
+            IndexedDB. Entries are keyed by a SHA-256 hash of the text, so your content itself is never
+            stored. Use "Clear cache" in Analysis Settings to remove them.
+          </p>
+          <p>
+            Completed analyses, including the content you analyzed, are saved in a separate IndexedDB
+            history on your device so you can reopen and compare them later. Your API key is never saved.
+            This history never leaves your browser; delete runs or use "Clear History" in the History panel
+            to remove it.
+          </p>
+          <p>
+            Projects you create (keyword sets, competitor rosters and target pages) are stored the same way,
+            on your device only. Deleting a project removes everything saved in it.
+          </p>
 
           <h4>5. Security Measures</h4>
           <ul>
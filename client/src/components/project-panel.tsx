@@ -0,0 +1,354 @@
+import { useState, useEffect } from "react";
+import { type Project, type Keyword, type Competitor, type TargetPage } from "@shared/schema";
+import { projectStore, upsertByName } from "@/services/project-store";
+import { derivePageName } from "@/services/analysis-history";
+import { countWords } from "@/lib/analysis";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { FolderKanban, Plus, Save, Settings, Trash2, Users } from "lucide-react";
+
+interface ProjectPanelProps {
+  keywords: Keyword[];
+  competitors: Competitor[];
+  pageName: string;
+  mainCopy: string;
+  onApplyKeywords: (keywords: Keyword[]) => void;
+  onApplyCompetitors: (competitors: Competitor[]) => void;
+  onApplyPage: (page: TargetPage) => void;
+}
+
+type NamingTarget = 'project' | 'keywordSet' | 'page';
+
+const NAMING_TITLES: Record<NamingTarget, string> = {
+  project: "New Project",
+  keywordSet: "Save Keyword Set",
+  page: "Save Target Page"
+};
+
+const selectClassName = "w-full h-9 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary";
+
+export function ProjectPanel({
+  keywords,
+  competitors,
+  pageName,
+  mainCopy,
+  onApplyKeywords,
+  onApplyCompetitors,
+  onApplyPage
+}: ProjectPanelProps) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [naming, setNaming] = useState<NamingTarget | null>(null);
+  const [nameInput, setNameInput] = useState("");
+  const [showManage, setShowManage] = useState(false);
+  const { toast } = useToast();
+
+  const project = projects.find(p => p.id === projectId);
+
+  useEffect(() => {
+    projectStore.list().then(setProjects).catch(() => setProjects([]));
+  }, []);
+
+  // Reports failures itself; callers use the result to skip their success feedback
+  const updateProject = async (updated: Project): Promise<boolean> => {
+    try {
+      const saved = await projectStore.save(updated);
+      setProjects(list => list.map(p => (p.id === saved.id ? saved : p)));
+      return true;
+    } catch (error: any) {
+      toast({ title: "Could not save project", description: error.message, variant: "destructive" });
+      return false;
+    }
+  };
+
+  const startNaming = (target: NamingTarget, initialName: string = "") => {
+    setNameInput(initialName);
+    setNaming(target);
+  };
+
+  const handleSaveKeywordSet = () => {
+    if (keywords.length === 0) {
+      toast({ title: "No keywords", description: "Enter keywords before saving them as a set", variant: "destructive" });
+      return;
+    }
+    startNaming('keywordSet');
+  };
+
+  const handleSavePage = () => {
+    if (!mainCopy.trim()) {
+      toast({ title: "No content", description: "Paste your page content before saving it", variant: "destructive" });
+      return;
+    }
+    startNaming('page', pageName.trim() || derivePageName(mainCopy));
+  };
+
+  const handleSaveRoster = async () => {
+    if (!project) return;
+    const roster = competitors.filter(c => c.name.trim() && c.copy.trim());
+    if (roster.length === 0) {
+      toast({ title: "No competitors", description: "Add competitor content before saving the roster", variant: "destructive" });
+      return;
+    }
+    if (!(await updateProject({ ...project, competitors: roster }))) return;
+    toast({ title: "Roster Saved", description: `${roster.length} competitor${roster.length !== 1 ? 's' : ''} saved to ${project.name}` });
+  };
+
+  const handleConfirmName = async () => {
+    const name = nameInput.trim();
+    if (!name) return;
+
+    try {
+      let saved = true;
+      if (naming === 'project') {
+        const created = await projectStore.create(name);
+        setProjects(list => [...list, created].sort((a, b) => a.name.localeCompare(b.name)));
+        setProjectId(created.id);
+      } else if (naming === 'keywordSet' && project) {
+        const existing = project.keywordSets.find(set => set.name === name);
+        saved = await updateProject({
+          ...project,
+          keywordSets: upsertByName(project.keywordSets, { id: existing?.id ?? crypto.randomUUID(), name, keywords })
+        });
+      } else if (naming === 'page' && project) {
+        const existing = project.pages.find(page => page.name === name);
+        saved = await updateProject({
+          ...project,
+          pages: upsertByName(project.pages, { id: existing?.id ?? crypto.randomUUID(), name, copy: mainCopy })
+        });
+      }
+      // Keep the dialog open after a failed save so the name can be retried
+      if (saved) setNaming(null);
+    } catch (error: any) {
+      toast({ title: "Could not save", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!project) return;
+    try {
+      await projectStore.delete(project.id);
+      setProjects(list => list.filter(p => p.id !== project.id));
+      setProjectId("");
+      setShowManage(false);
+    } catch (error: any) {
+      toast({ title: "Could not delete project", description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="bg-white rounded-lg border border-gray-200 shadow-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <FolderKanban className="h-5 w-5" />
+          Project
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">No project (one-off analysis)</option>
+            {projects.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <Button type="button" variant="outline" size="sm" onClick={() => startNaming('project')}>
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+          {project && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowManage(true)} title="Manage project">
+              <Settings className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {project && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Keyword sets */}
+            <div className="space-y-2">
+              <Label className="text-sm">Keyword Set</Label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const set = project.keywordSets.find(s => s.id === e.target.value);
+                  if (set) onApplyKeywords(set.keywords);
+                }}
+                className={selectClassName}
+                disabled={project.keywordSets.length === 0}
+              >
+                <option value="">{project.keywordSets.length > 0 ? "Load a keyword set..." : "No saved sets"}</option>
+                {project.keywordSets.map(set => (
+                  <option key={set.id} value={set.id}>{set.name} ({set.keywords.length})</option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleSaveKeywordSet}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Current Keywords
+              </Button>
+            </div>
+
+            {/* Target pages */}
+            <div className="space-y-2">
+              <Label className="text-sm">Target Page</Label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const page = project.pages.find(p => p.id === e.target.value);
+                  if (page) onApplyPage(page);
+                }}
+                className={selectClassName}
+                disabled={project.pages.length === 0}
+              >
+                <option value="">{project.pages.length > 0 ? "Load a page..." : "No saved pages"}</option>
+                {project.pages.map(page => (
+                  <option key={page.id} value={page.id}>{page.name}</option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleSavePage}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Current Page
+              </Button>
+            </div>
+
+            {/* Competitor roster */}
+            <div className="space-y-2">
+              <Label className="text-sm">Competitor Roster</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full h-9"
+                disabled={project.competitors.length === 0}
+                onClick={() => onApplyCompetitors(project.competitors)}
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Use Roster ({project.competitors.length})
+              </Button>
+              <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleSaveRoster}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Current Competitors
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Name prompt for new projects, keyword sets and pages */}
+      <Dialog open={naming !== null} onOpenChange={(open) => !open && setNaming(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{naming ? NAMING_TITLES[naming] : ""}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="projectItemName">Name</Label>
+            <Input
+              id="projectItemName"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleConfirmName();
+                }
+              }}
+              maxLength={naming === 'page' ? 200 : 100}
+              autoFocus
+            />
+            {naming !== 'project' && (
+              <p className="text-xs text-muted-foreground">Saving under an existing name replaces it.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setNaming(null)}>Cancel</Button>
+            <Button type="button" onClick={handleConfirmName} disabled={!nameInput.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manage the selected project */}
+      {project && (
+        <Dialog open={showManage} onOpenChange={setShowManage}>
+          <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Manage {project.name}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="projectName">Project Name</Label>
+                <Input
+                  id="projectName"
+                  defaultValue={project.name}
+                  maxLength={100}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== project.name) updateProject({ ...project, name });
+                  }}
+                />
+              </div>
+
+              <ProjectItemList
+                title="Keyword Sets"
+                items={project.keywordSets.map(set => ({ key: set.id, label: set.name, detail: `${set.keywords.length} keywords` }))}
+                onDelete={(id) => updateProject({ ...project, keywordSets: project.keywordSets.filter(s => s.id !== id) })}
+              />
+              <ProjectItemList
+                title="Target Pages"
+                items={project.pages.map(page => ({ key: page.id, label: page.name, detail: `${countWords(page.copy)} words` }))}
+                onDelete={(id) => updateProject({ ...project, pages: project.pages.filter(p => p.id !== id) })}
+              />
+              <ProjectItemList
+                title="Competitor Roster"
+                items={project.competitors.map(c => ({ key: c.name, label: c.name, detail: `${countWords(c.copy)} words` }))}
+                onDelete={(name) => updateProject({ ...project, competitors: project.competitors.filter(c => c.name !== name) })}
+              />
+
+              <Button type="button" variant="destructive" size="sm" onClick={handleDeleteProject}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Project
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
+
+interface ProjectItemListProps {
+  title: string;
+  items: Array<{ key: string; label: string; detail: string }>;
+  onDelete: (key: string) => void;
+}
+
+function ProjectItemList({ title, items, onDelete }: ProjectItemListProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing saved yet</p>
+      ) : (
+        <div className="space-y-1">
+          {items.map(item => (
+            <div key={item.key} className="flex items-center justify-between text-sm p-2 border rounded">
+              <span className="truncate" title={item.label}>{item.label}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{item.detail}</span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => onDelete(item.key)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
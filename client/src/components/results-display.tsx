@@ -1,41 +1,68 @@
-import { useState } from "react";
-import { type AnalysisResult } from "@shared/schema";
+import { useState, useEffect } from "react";
+import { type AnalysisResult, type AnalysisRequest } from "@shared/schema";
 import { openAIClient } from "@/services/openai-client.service";
-import { ObfuscatedStorage } from "@/lib/security";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Trophy, CheckCircle, Lightbulb, TrendingUp, ThumbsUp, FileText, Download, Brain, AlertTriangle } from "lucide-react";
-import { ChevronDown, ChevronUp, Copy } from "lucide-react";
+import { Trophy, CheckCircle, Lightbulb, TrendingUp, ThumbsUp, FileText, Download, Brain, AlertTriangle, Users } from "lucide-react";
+import { ChevronDown, ChevronUp, Copy, Grid3x3 } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { calculateScorePredictions, calculateCumulativeImpact } from "@/lib/analysis";
+import { calculateScorePredictions, calculateCumulativeImpact, collectLiftObservations, groupKeywordCoverage, coverageRole, ROLE_LABELS, type LiftObservation } from "@/lib/analysis";
+import { analysisHistory, derivePageName } from "@/services/analysis-history";
+import { formatSpanLines } from "@/lib/text-analysis";
+import { expandKeyword } from "@/lib/keyword-variants";
+import { formatVolume } from "@/lib/keyword-import";
 import { AIEnhancement } from "@/components/ai-enhancement";
 import { TextEvidence } from "@/components/text-evidence";
+import { SimilarityHeatmap } from "@/components/similarity-heatmap";
+import { CompetitorLeaderboard } from "@/components/competitor-leaderboard";
+import { EnhancementOutcome } from "@/components/enhancement-outcome";
+import { SCORING_STRATEGIES } from "@/services/scoring-strategies";
+import { calibrateScore } from "@/services/score-calibration";
+import { EMBEDDING_PROVIDER_PRESETS } from "@/services/embedding-providers";
 import { useToast } from "@/hooks/use-toast";
 
 interface ResultsDisplayProps {
   results: AnalysisResult;
-  originalText: string;
-  competitorText: string;
-  apiKey: string;
+  request: AnalysisRequest; // the inputs these results were computed from
 }
 
-export function ResultsDisplay({ results, originalText, competitorText, apiKey }: ResultsDisplayProps) {
-  const isMainWinner = results.mainCopyScore > results.competitorCopyScore;
-  const gap = Math.abs(results.mainCopyScore - results.competitorCopyScore);
+export function ResultsDisplay({ results, request }: ResultsDisplayProps) {
+  const { mainCopy: originalText, competitors, apiKey } = request;
+  const scoringStrategy = results.scoringStrategy ?? 'centroid';
+  const { calibration } = results;
+  // Competitors arrive sorted by score, so the first one is the leader
+  const leader = results.competitors[0];
+  const isMainWinner = results.mainCopyScore > leader.score;
+  const [selectedCompetitor, setSelectedCompetitor] = useState(leader.name);
+  const breakdownCompetitor = results.competitors.find(c => c.name === selectedCompetitor) ?? leader;
   const [showEnhancement, setShowEnhancement] = useState(false);
-  const [enhancedContent, setEnhancedContent] = useState("");
+  // observations is the calibration in effect when the enhancement was applied, so saving the
+  // enhancement to history does not change the prediction it is compared with
+  const [enhancement, setEnhancement] = useState<{
+    text: string;
+    result: AnalysisResult;
+    observations: LiftObservation[];
+  } | null>(null);
+  const [liftObservations, setLiftObservations] = useState<LiftObservation[]>([]);
   const [showCalculation, setShowCalculation] = useState(false);
   const { toast } = useToast();
 
+  const weaklyCoveredKeywords = results.keywordAnalysis.filter(ka => ka.semanticCoverage < 40);
+  const mainTopicsCoverage = results.keywordAnalysis.filter(ka => coverageRole(ka) === 'main');
+  const keywordGroups = groupKeywordCoverage(results.keywordAnalysis);
+  // Runs without keyword groups keep the flat keyword list
+  const hasKeywordGroups = keywordGroups.some(group => group.name !== null);
+  // Enhancement sends copy to OpenAI chat models, which users of other providers have not agreed to
+  const enhancementAvailable = request.embedding.provider === 'openai';
+
   const handleAIEnhancement = async () => {
     try {
-      // Get API key from secure storage or props
-      const storedKey = ObfuscatedStorage.getItem('temp_api_key') || apiKey;
-      
-      if (!storedKey) {
+      // The request's key rather than the session's stored one: a reopened run made with another
+      // provider has none, so the user is asked for its key
+      if (!apiKey) {
         toast({
           title: "API Key Required",
           description: "Please provide your API key to use AI enhancement",
@@ -44,8 +71,17 @@ export function ResultsDisplay({ results, originalText, competitorText, apiKey }
         return;
       }
 
-      // Initialize client and enhance
-      openAIClient.initialize(storedKey);
+      // The analysis form destroys the client after every analysis, so it is recreated here with
+      // the embedding provider these results used, keeping re-scored changes comparable
+      openAIClient.initialize(apiKey, request.embedding);
+      if (!openAIClient.canEnhance()) {
+        toast({
+          title: "Enhancement Unavailable",
+          description: "AI enhancement uses OpenAI chat models, so it is only available when OpenAI is the embedding provider",
+          variant: "destructive"
+        });
+        return;
+      }
       setShowEnhancement(true);
     } catch (error: any) {
       toast({
@@ -56,13 +92,37 @@ export function ResultsDisplay({ results, originalText, competitorText, apiKey }
     }
   };
 
-  const handleAcceptEnhancement = (enhanced: string) => {
-    setEnhancedContent(enhanced);
+  // Predictions are calibrated from before/after pairs in this browser's history
+  const refreshLiftObservations = () => {
+    analysisHistory.list()
+      .then(runs => setLiftObservations(collectLiftObservations(runs, results.embedding.model)))
+      .catch(() => setLiftObservations([]));
+  };
+
+  useEffect(refreshLiftObservations, [results]);
+
+  const handleAcceptEnhancement = async (enhanced: string, rescored: AnalysisResult) => {
+    setEnhancement({ text: enhanced, result: rescored, observations: liftObservations });
     setShowEnhancement(false);
     toast({
       title: "Content Enhanced",
-      description: "Your content has been updated with AI suggestions",
+      description: `Your content has been updated with the selected changes and now scores ${rescored.mainCopyScore}%`,
     });
+
+    // Saved as the next run of the same page, so this edit becomes a before/after pair for calibration
+    try {
+      await analysisHistory.save(
+        { ...request, mainCopy: enhanced, pageName: request.pageName?.trim() || derivePageName(originalText) },
+        rescored
+      );
+      refreshLiftObservations();
+    } catch {
+      toast({
+        title: "Not saved to history",
+        description: "The enhanced version could not be saved, so it will not calibrate future predictions",
+        variant: "destructive"
+      });
+    }
   };
 
   const copyToClipboard = (text: string) => {
@@ -81,26 +141,100 @@ export function ResultsDisplay({ results, originalText, competitorText, apiKey }
   };
 
   const exportCSV = () => {
+    // The calibrated column is only added when the run was calibrated
+    const scoreRow = (name: string, score: number) =>
+      calibration ? [name, score.toString(), calibrateScore(score, calibration).toString()] : [name, score.toString()];
     const csvData = [
-      ['Metric', 'Your Content', 'Competitor Content'],
-      ['Overall Score (%)', results.mainCopyScore.toString(), results.competitorCopyScore.toString()],
-      ['Gap Analysis', results.gapAnalysis, ''],
+      calibration ? ['Document', 'Overall Score (%)', 'Calibrated Score'] : ['Document', 'Overall Score (%)'],
+      scoreRow('Your Content', results.mainCopyScore),
+      ...results.competitors.map(c => scoreRow(c.name, c.score)),
+      scoreRow('Competitor Median', results.competitorMedianScore),
+      ['Gap Analysis', results.gapAnalysis],
     ];
 
-    if (results.mainCopyChunks && results.competitorCopyChunks) {
-      csvData.push(['', '', '']);
-      csvData.push(['Chunk Analysis', '', '']);
-      csvData.push(['Chunk', 'Your Content Score (%)', 'Competitor Score (%)']);
-      
-      const maxChunks = Math.max(results.mainCopyChunks.length, results.competitorCopyChunks.length);
-      for (let i = 0; i < maxChunks; i++) {
-        const mainScore = results.mainCopyChunks[i]?.score?.toString() || '';
-        const compScore = results.competitorCopyChunks[i]?.score?.toString() || '';
-        csvData.push([`Chunk ${i + 1}`, mainScore, compScore]);
-      }
+    // Keyword details and coverage, in the order the keywords were entered
+    csvData.push([]);
+    csvData.push(['Keyword Summary']);
+    csvData.push(['Keyword', 'Group', 'Intent', 'Search Volume', 'Weight', 'Semantic Coverage (%)', 'Direct Mentions', 'Score Contribution']);
+    results.keywordAnalysis.forEach(ka => {
+      csvData.push([
+        ka.keyword,
+        ka.group ?? '',
+        ka.intent ?? '',
+        ka.searchVolume?.toString() ?? '',
+        ka.weight.toString(),
+        ka.semanticCoverage.toString(),
+        ka.directMentions.toString(),
+        ka.scoreContribution !== undefined ? (Math.round(ka.scoreContribution * 10) / 10).toString() : ''
+      ]);
+    });
+
+    if (results.mainCopyChunks) {
+      const documents = [
+        { name: 'Your Content', chunks: results.mainCopyChunks },
+        ...results.competitors.map(c => ({ name: c.name, chunks: c.chunks || [] }))
+      ];
+
+      // Each document has its own headings, so sections are listed per document rather than side by side
+      csvData.push([]);
+      csvData.push(['Section Analysis']);
+      csvData.push(['Document', 'Section', 'Heading Level', 'Start Line', 'End Line', 'Start Offset', 'End Offset', 'Score (%)']);
+
+      documents.forEach(d => {
+        d.chunks.forEach(chunk => {
+          csvData.push([
+            d.name,
+            chunk.title,
+            chunk.level.toString(),
+            chunk.span.startLine.toString(),
+            chunk.span.endLine.toString(),
+            chunk.span.start.toString(),
+            chunk.span.end.toString(),
+            chunk.score.toString()
+          ]);
+        });
+      });
+    }
+
+    // On-page checks per keyword, for runs that have them
+    if (results.keywordAnalysis.some(ka => ka.lexical)) {
+      const placed = (present: boolean | null) => (present === null ? 'n/a' : present ? 'yes' : 'no');
+      csvData.push([]);
+      csvData.push(['Keyword Lexical Analysis']);
+      csvData.push(['Keyword', 'Semantic Coverage (%)', 'Mentions (incl. variants)', 'Density (per 100 words)', 'First Occurrence (%)', 'Title', 'H1', 'H2', 'First Paragraph', 'Meta Description', 'Warnings']);
+      results.keywordAnalysis.forEach(ka => {
+        if (!ka.lexical) return;
+        const { placement } = ka.lexical;
+        csvData.push([
+          ka.keyword,
+          ka.semanticCoverage.toString(),
+          ka.lexical.mentions.toString(),
+          ka.lexical.density.toString(),
+          ka.lexical.firstOccurrence?.toString() ?? '',
+          placed(placement.title),
+          placed(placement.h1),
+          placed(placement.h2),
+          placed(placement.firstParagraph),
+          placed(placement.metaDescription),
+          ka.lexical.warnings.join('; ')
+        ]);
+      });
+    }
+
+    // Related competitor terms missing from this copy, per keyword
+    if (results.keywordAnalysis.some(ka => ka.missingTerms?.length)) {
+      csvData.push([]);
+      csvData.push(['Competitor Term Gaps']);
+      csvData.push(['Keyword', 'Term', 'Competitors Using', 'Mentions', 'Similarity (%)']);
+      results.keywordAnalysis.forEach(ka => {
+        ka.missingTerms?.forEach(term => {
+          csvData.push([ka.keyword, term.term, term.competitors.toString(), term.mentions.toString(), term.similarity.toString()]);
+        });
+      });
     }
 
-    const csv = csvData.map(row => row.join(',')).join('\n');
+    // Quote every field: competitor names and the gap analysis may contain commas
+    const csv = csvData.map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(',')).join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -118,8 +252,10 @@ Generated: ${new Date().toLocaleString()}
 
 OVERALL RESULTS
 Your Content Score: ${results.mainCopyScore}%
-Competitor Content Score: ${results.competitorCopyScore}%
-Winner: ${isMainWinner ? 'Your Content' : 'Competitor Content'}
+${results.competitors.map(c => `${c.name} Score: ${c.score}%`).join('\n')}
+Competitor Median: ${results.competitorMedianScore}%
+${calibration ? `Calibrated (${results.embedding.model}): you ${calibrateScore(results.mainCopyScore, calibration)}, leader ${calibrateScore(leader.score, calibration)}, median ${calibrateScore(results.competitorMedianScore, calibration)}
+` : ''}Winner: ${isMainWinner ? 'Your Content' : leader.name}
 
 GAP ANALYSIS
 ${results.gapAnalysis}
@@ -128,16 +264,24 @@ ${results.mainCopyChunks ? `
 DETAILED CHUNK ANALYSIS
 
 Your Content Breakdown:
-${results.mainCopyChunks.map((chunk, i) => `Chunk ${i + 1}: ${chunk.score}%`).join('\n')}
+${results.mainCopyChunks.map(chunk => `${chunk.title} (${formatSpanLines(chunk.span)}): ${chunk.score}%`).join('\n')}
 
-Competitor Content Breakdown:
-${results.competitorCopyChunks?.map((chunk, i) => `Chunk ${i + 1}: ${chunk.score}%`).join('\n') || ''}
+${results.competitors.map(c => `${c.name} Breakdown:
+${c.chunks?.map(chunk => `${chunk.title} (${formatSpanLines(chunk.span)}): ${chunk.score}%`).join('\n') || ''}`).join('\n\n')}
 ` : ''}
 
 TOPIC PRIORITIES
-${results.keywordWeights.map(k => `${k.text}: ${k.weight > 1 ? 'Main Topic' : 'Supporting Topic'}`).join('\n')}
+${results.keywordWeights.map(k => [
+  `${k.text}: ${ROLE_LABELS[k.role]} (weight ${k.weight})`,
+  k.group && `group ${k.group}`,
+  k.intent,
+  k.searchVolume !== undefined && `${k.searchVolume} searches/month`
+].filter(Boolean).join(', ')).join('\n')}
 
+Scoring Strategy: ${SCORING_STRATEGIES[scoringStrategy].label}
+Embedding Model: ${results.embedding.model} (${results.embedding.provider}, ${results.embedding.dimensions} dimensions)
 Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
+Embedding Cache: ${results.cacheStats.hits} hits, ${results.cacheStats.misses} misses
     `.trim();
 
     const blob = new Blob([reportContent], { type: 'text/plain' });
@@ -190,6 +334,11 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                   </div>
                 </div>
               </div>
+              {calibration && (
+                <p className="mt-2 text-sm text-gray-700">
+                  Calibrated: <span className="font-semibold">{calibrateScore(results.mainCopyScore, calibration)}</span>/100
+                </p>
+              )}
               {isMainWinner && (
                 <div className="mt-2">
                   <Badge className="bg-green-100 text-green-800">
@@ -200,9 +349,9 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
               )}
             </div>
 
-            {/* Competitor Content Score */}
+            {/* Top Competitor Score */}
             <div className="text-center">
-              <h3 className="text-sm font-medium text-gray-600 mb-3">Competitor Content</h3>
+              <h3 className="text-sm font-medium text-gray-600 mb-3">Top Competitor: {leader.name}</h3>
               <div className="relative w-32 h-32 mx-auto">
                 <svg className="w-32 h-32 transform -rotate-90" viewBox="0 0 36 36">
                   <circle 
@@ -220,17 +369,22 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                     fill="none" 
                     stroke="#8b5cf6" 
                     strokeWidth="2" 
-                    strokeDasharray={`${results.competitorCopyScore}, 100`} 
+                    strokeDasharray={`${leader.score}, 100`} 
                     className="transition-all duration-1000 ease-out" 
                   />
                 </svg>
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div className="text-center">
-                    <span className="text-3xl font-bold text-gray-900">{results.competitorCopyScore}%</span>
+                    <span className="text-3xl font-bold text-gray-900">{leader.score}%</span>
                     <span className="block text-xs text-gray-500 mt-1">Match</span>
                   </div>
                 </div>
               </div>
+              {calibration && (
+                <p className="mt-2 text-sm text-gray-700">
+                  Calibrated: <span className="font-semibold">{calibrateScore(leader.score, calibration)}</span>/100
+                </p>
+              )}
               {!isMainWinner && (
                 <div className="mt-2">
                   <Badge className="bg-green-100 text-green-800">
@@ -239,6 +393,11 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                   </Badge>
                 </div>
               )}
+              {results.competitors.length > 1 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Median of {results.competitors.length} competitors: {results.competitorMedianScore}%
+                </p>
+              )}
             </div>
           </div>
 
@@ -259,10 +418,34 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                 </div>
               </div>
             </div>
+            <div className="mt-3 flex justify-end gap-4 text-xs text-muted-foreground">
+              <span>Processed in {(results.processingTime / 1000).toFixed(1)}s</span>
+              <span>
+                {results.cacheStats.hits} of {results.cacheStats.hits + results.cacheStats.misses} embeddings from cache
+              </span>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Competitor Leaderboard */}
+      {results.competitors.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Competitor Leaderboard
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              How you rank against every competitor, and who covers each keyword best
+            </p>
+          </CardHeader>
+          <CardContent>
+            <CompetitorLeaderboard results={results} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* How We Calculated This - Calculation Process */}
       <Card>
         <CardHeader>
@@ -286,9 +469,9 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                 <div className="flex items-center justify-center gap-2 text-sm flex-wrap">
                   <Badge className="bg-white">{results.keywordWeights.length} Topics</Badge>
                   <span className="text-gray-500">→</span>
-                  <Badge className="bg-white">AI Embeddings</Badge>
+                  <Badge className="bg-white">{results.embedding.model} Embeddings</Badge>
                   <span className="text-gray-500">→</span>
-                  <Badge className="bg-white">Semantic Compare</Badge>
+                  <Badge className="bg-white">{SCORING_STRATEGIES[scoringStrategy].label}</Badge>
                   <span className="text-gray-500">→</span>
                   <Badge variant="default" className="text-lg px-3 py-1">
                     {results.mainCopyScore}%
@@ -303,15 +486,15 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                   <h4 className="font-medium mb-2">1. Your Topic Priorities:</h4>
                   <div className="flex flex-wrap gap-2">
                     {results.keywordWeights.map((kw) => (
-                      <Badge key={kw.text} variant={kw.weight > 1 ? "default" : "outline"}>
-                        {kw.weight > 1 && "🎯 "}
+                      <Badge key={kw.text} variant={kw.role === 'main' ? "default" : "outline"}>
+                        {kw.role === 'main' && "🎯 "}
                         {kw.text}
-                        {kw.weight > 1 && " (Main Topic)"}
+                        {kw.role === 'main' && ` (${ROLE_LABELS.main})`}
                       </Badge>
                     ))}
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Your main topic gets priority in the analysis scoring
+                    Main topics get priority in the analysis scoring
                   </p>
                 </div>
 
@@ -350,7 +533,7 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                     <div className="space-y-2">
                       {results.mainCopyChunks.map((chunk, index) => (
                         <div key={chunk.title} className="flex items-center justify-between text-sm">
-                          <span>{chunk.title}:</span>
+                          <span style={{ paddingLeft: `${(chunk.level - 1) * 12}px` }}>{chunk.title}:</span>
                           <div className="flex items-center gap-2">
                             <Progress value={chunk.score} className="w-24 h-2" />
                             <span className="font-medium w-12 text-right">{chunk.score}%</span>
@@ -359,7 +542,9 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                       ))}
                     </div>
                     <p className="text-xs text-muted-foreground mt-2">
-                      Overall score is the average of all sections
+                      {scoringStrategy === 'centroid'
+                        ? "Overall score is the average of all sections"
+                        : "Section scores show similarity to all your topics combined; the overall score comes from the strategy below"}
                     </p>
                   </div>
                 )}
@@ -371,6 +556,20 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                     <p>
                       Your content covers {results.mainCopyScore}% of your target topics well. This measures how well your content aligns with your topic priorities.
                     </p>
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      <span className="font-medium">{SCORING_STRATEGIES[scoringStrategy].label}:</span>{" "}
+                      {SCORING_STRATEGIES[scoringStrategy].description}
+                    </p>
+                    {calibration && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        <span className="font-medium">Calibrated scale:</span> with {results.embedding.model}, bundled
+                        reference keywords score {calibration.offTopic[1]}–{calibration.offTopic[9]}% against unrelated pages
+                        and {calibration.onTopic[1]}–{calibration.onTopic[9]}% against pages about them (10th–90th percentile).
+                        The calibrated score puts the off-topic median ({calibration.offTopic[5]}%) at 0 and the on-topic
+                        median ({calibration.onTopic[5]}%) at 100, so your {results.mainCopyScore}% becomes{" "}
+                        {calibrateScore(results.mainCopyScore, calibration)}.
+                      </p>
+                    )}
                     <p className="mt-2 font-medium">
                       {results.mainCopyScore >= 80
                         ? "Excellent coverage!"
@@ -390,7 +589,7 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
       {/* End Calculation Card */}
 
       {/* Detailed Analysis Results */}
-      {results.mainCopyChunks && results.competitorCopyChunks && (
+      {results.mainCopyChunks && breakdownCompetitor.chunks && (
         <Card>
           <CardHeader>
             <CardTitle>Detailed Content Analysis</CardTitle>
@@ -407,9 +606,13 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                       <div 
                         key={index}
                         className={`p-3 border rounded-md ${isLowScore ? 'border-yellow-200 bg-yellow-50' : 'border-gray-200'}`}
+                        style={{ marginLeft: `${(chunk.level - 1) * 12}px` }}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-sm font-medium">{chunk.title}</span>
+                          <span className="text-sm font-medium">
+                            {chunk.title}
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">{formatSpanLines(chunk.span)}</span>
+                          </span>
                           <div className="flex items-center">
                             <span className={`text-sm font-semibold ${isLowScore ? 'text-yellow-600' : 'text-primary'}`}>
                               {chunk.score}%
@@ -429,10 +632,27 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
 
               {/* Competitor Content Breakdown */}
               <div>
-                <h3 className="text-md font-medium mb-4">Competitor Content Breakdown</h3>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <h3 className="text-md font-medium">Competitor Breakdown</h3>
+                  {results.competitors.length > 1 && (
+                    <select
+                      value={breakdownCompetitor.name}
+                      onChange={(e) => setSelectedCompetitor(e.target.value)}
+                      className="h-8 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {results.competitors.map(c => (
+                        <option key={c.name} value={c.name}>{c.name} ({c.score}%)</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
                 <div className="space-y-3">
-                  {results.competitorCopyChunks.map((chunk, index) => (
-                    <div key={index} className="p-3 border border-gray-200 rounded-md">
+                  {breakdownCompetitor.chunks.map((chunk, index) => (
+                    <div
+                      key={index}
+                      className="p-3 border border-gray-200 rounded-md"
+                      style={{ marginLeft: `${(chunk.level - 1) * 12}px` }}
+                    >
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium">{chunk.title}</span>
                         <span className="text-sm font-semibold text-muted-foreground">
@@ -449,6 +669,25 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
         </Card>
       )}
 
+      {/* Keyword x Section Heatmap */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5" />
+            Keyword × Section Similarity
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            See which section carries or drags each topic
+          </p>
+        </CardHeader>
+        <CardContent>
+          <SimilarityHeatmap
+            main={results.similarityMatrix}
+            competitors={results.competitors}
+          />
+        </CardContent>
+      </Card>
+
       {/* Actionable Insights */}
       <Card>
         <CardHeader>
@@ -487,9 +726,17 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                 </div>
                 <div className="ml-3">
                   <h3 className="text-sm font-medium text-primary">Topic Coverage Analysis</h3>
-                  <div className="mt-2 text-sm text-primary/80">
+                  <div className="mt-2 text-sm text-primary/80 space-y-1">
+                    {mainTopicsCoverage.map(main => (
+                      <p key={main.keyword}>
+                        Your main topic "{main.keyword}" is covered across {main.semanticCoverage}% of your content
+                        (best competitor, {main.bestCompetitor}: {main.competitorSemanticCoverage}%).
+                      </p>
+                    ))}
                     <p>
-                      Your main topic shows strong coverage. Consider balancing discussion across all your topics for optimal performance.
+                      {weaklyCoveredKeywords.length > 0
+                        ? `Weakly covered topics: ${weaklyCoveredKeywords.map(ka => ka.keyword).join(", ")}. Add dedicated passages for these.`
+                        : "All of your topics are addressed somewhere in your content."}
                     </p>
                   </div>
                 </div>
@@ -528,14 +775,30 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            {results.keywordAnalysis.map((keyword) => (
-              <TextEvidence
-                key={keyword.keyword}
-                keyword={keyword}
-                userText={originalText}
-                competitorText={competitorText}
-                chunks={results.mainCopyChunks}
-              />
+            {keywordGroups.map(group => (
+              <div key={group.name ?? ''} className="space-y-4">
+                {hasKeywordGroups && (
+                  <div className="flex items-center justify-between border-b pb-2">
+                    <h3 className="font-medium">{group.name ?? "Ungrouped"}</h3>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span>{group.keywords.length} keyword{group.keywords.length !== 1 ? 's' : ''}</span>
+                      {group.searchVolume !== null && <span>{formatVolume(group.searchVolume)} searches/mo</span>}
+                      <span>{group.coverage}% weighted coverage</span>
+                    </div>
+                  </div>
+                )}
+                {group.keywords.map((keyword) => (
+                  <TextEvidence
+                    key={keyword.keyword}
+                    keyword={keyword}
+                    variants={expandKeyword(results.keywordWeights.find(k => k.text === keyword.keyword) ?? keyword.keyword)}
+                    userText={originalText}
+                    competitorName={keyword.bestCompetitor}
+                    competitorText={competitors.find(c => c.name === keyword.bestCompetitor)?.copy || ""}
+                    chunks={results.mainCopyChunks}
+                  />
+                ))}
+              </div>
             ))}
           </div>
         </CardContent>
@@ -703,9 +966,12 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
           {(() => {
             const predictions = calculateScorePredictions(
               results.mainCopyScore,
-              results.keywordAnalysis
+              results.keywordAnalysis,
+              undefined,
+              liftObservations
             );
             const cumulativeScore = calculateCumulativeImpact(predictions);
+            const isCalibrated = predictions.every(prediction => prediction.interval !== null);
 
             if (predictions.length === 0) {
               return (
@@ -730,9 +996,16 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                             Currently: {prediction.currentMentions} mentions → Suggested: {prediction.suggestedMentions} mentions
                           </p>
                         </div>
-                        <Badge variant="default" className="ml-2">
-                          +{prediction.impact}%
-                        </Badge>
+                        <div className="ml-2 text-right">
+                          <Badge variant="default">
+                            {prediction.impact >= 0 ? '+' : ''}{prediction.impact}%
+                          </Badge>
+                          {prediction.interval && (
+                            <div className="text-xs text-muted-foreground mt-1 whitespace-nowrap">
+                              95% CI {prediction.interval.low} to {prediction.interval.high}
+                            </div>
+                          )}
+                        </div>
                       </div>
 
                       <div className="space-y-1">
@@ -759,12 +1032,23 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
                       <div className="text-2xl font-bold text-green-600">{cumulativeScore}%</div>
                     </div>
                     <Progress value={cumulativeScore} className="mt-3 h-3 [&>div]:bg-green-500" />
-                    <p className="text-xs text-muted-foreground mt-2">* Estimates based on semantic analysis. Actual results may vary.</p>
+                    {isCalibrated && (
+                      <p className="text-sm text-gray-600 mt-2">
+                        Range: {calculateCumulativeImpact(predictions, 'low')}% to {calculateCumulativeImpact(predictions, 'high')}%
+                        {' '}(every keyword at the low or high end of its interval)
+                      </p>
+                    )}
                   </div>
                 )}
 
+                <p className="text-xs text-muted-foreground">
+                  {predictions.map(prediction => prediction.basis).includes('formula')
+                    ? "* Keywords without an interval use a fixed estimate from missing coverage and weight. Predictions are calibrated once at least 3 before/after edits with the same embedding model are saved in your history."
+                    : `* Calibrated from ${Math.max(...predictions.map(prediction => prediction.samples))} before/after edits in your history with ${results.embedding.model}.`}
+                </p>
+
                 <div className="flex justify-center pt-4">
-                  <Button onClick={handleAIEnhancement} size="lg" className="w-full max-w-sm">
+                  <Button onClick={handleAIEnhancement} size="lg" className="w-full max-w-sm" disabled={!enhancementAvailable}>
                     <Brain className="h-4 w-4 mr-2" />
                     Apply These Improvements with AI
                   </Button>
@@ -796,13 +1080,18 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
             onClick={handleAIEnhancement}
             className="w-full"
             size="lg"
-            disabled={!results.sectionImprovements || results.sectionImprovements.length === 0}
+            disabled={!enhancementAvailable || !results.sectionImprovements || results.sectionImprovements.length === 0}
           >
             <Brain className="h-5 w-5 mr-2" />
             Add Suggestions Using AI
           </Button>
           
-          {(!results.sectionImprovements || results.sectionImprovements.length === 0) && (
+          {!enhancementAvailable ? (
+            <p className="text-sm text-muted-foreground mt-2 text-center">
+              AI enhancement sends your content to OpenAI chat models, so it is only available when OpenAI is the
+              embedding provider. Your {EMBEDDING_PROVIDER_PRESETS[request.embedding.provider].label} setup keeps your copy away from OpenAI.
+            </p>
+          ) : (!results.sectionImprovements || results.sectionImprovements.length === 0) && (
             <p className="text-sm text-muted-foreground mt-2 text-center">
               No improvement suggestions available for this analysis
             </p>
@@ -810,6 +1099,16 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
         </CardContent>
       </Card>
 
+      {enhancement && (
+        <EnhancementOutcome
+          before={results}
+          after={enhancement.result}
+          observations={enhancement.observations}
+          enhancedText={enhancement.text}
+          onCopy={copyToClipboard}
+        />
+      )}
+
       {/* Export Options */}
       <Card>
         <CardHeader>
@@ -834,7 +1133,9 @@ Processing Time: ${(results.processingTime / 1000).toFixed(1)} seconds
         <AIEnhancement
           originalText={originalText}
           improvements={results.sectionImprovements || []}
-          apiKey={apiKey}
+          keywords={results.keywordWeights}
+          currentScore={results.mainCopyScore}
+          onRescore={(text) => openAIClient.analyze({ ...request, mainCopy: text })}
           onAccept={handleAcceptEnhancement}
           onCancel={() => setShowEnhancement(false)}
         />
@@ -0,0 +1,87 @@
+import { type AnalysisRun } from "@shared/schema";
+import { compareRuns, type ScoreDelta } from "@/lib/analysis";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight } from "lucide-react";
+
+interface RunComparisonProps {
+  before: AnalysisRun;
+  after: AnalysisRun;
+}
+
+function DeltaBadge({ delta }: { delta: number | null }) {
+  if (delta === null) {
+    return <Badge variant="outline" className="text-xs">n/a</Badge>;
+  }
+  return (
+    <Badge
+      variant={delta > 0 ? "default" : delta < 0 ? "destructive" : "secondary"}
+      className="text-xs"
+    >
+      {delta > 0 ? '+' : ''}{delta}
+    </Badge>
+  );
+}
+
+function DeltaTable({ title, rows }: { title: string; rows: ScoreDelta[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-xs text-muted-foreground">
+            <th className="text-left font-medium py-2 pr-3"></th>
+            <th className="text-right font-medium py-2 px-2">Before</th>
+            <th className="text-right font-medium py-2 px-2">After</th>
+            <th className="text-right font-medium py-2 pl-2">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b last:border-0">
+              <td className="py-2 pr-3">{row.label}</td>
+              <td className="py-2 px-2 text-right text-muted-foreground">{row.before ?? '-'}{row.before !== null && '%'}</td>
+              <td className="py-2 px-2 text-right font-medium">{row.after ?? '-'}{row.after !== null && '%'}</td>
+              <td className="py-2 pl-2 text-right"><DeltaBadge delta={row.delta} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function RunComparison({ before, after }: RunComparisonProps) {
+  const comparison = compareRuns(before.result, after.result);
+  const sameModel = before.result.embedding.model === after.result.embedding.model;
+
+  return (
+    <div className="space-y-6">
+      {/* Overall */}
+      <div className="flex items-center justify-center gap-6 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg">
+        <div className="text-center">
+          <div className="text-xs text-muted-foreground">{new Date(before.createdAt).toLocaleString()}</div>
+          <div className="text-3xl font-bold text-gray-700">{comparison.overall.before}%</div>
+        </div>
+        <ArrowRight className="h-5 w-5 text-muted-foreground" />
+        <div className="text-center">
+          <div className="text-xs text-muted-foreground">{new Date(after.createdAt).toLocaleString()}</div>
+          <div className="text-3xl font-bold text-gray-900">{comparison.overall.after}%</div>
+        </div>
+        <DeltaBadge delta={comparison.overall.delta} />
+      </div>
+
+      {!sameModel && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 p-2 rounded">
+          These runs used different embedding models ({before.result.embedding.model} vs {after.result.embedding.model}),
+          so score changes partly reflect the model rather than your edits.
+        </p>
+      )}
+
+      <DeltaTable title="Scores" rows={[comparison.overall, comparison.competitorMedian]} />
+      <DeltaTable title="Semantic Coverage by Keyword" rows={comparison.keywords} />
+      {comparison.sections.length > 0 && (
+        <DeltaTable title="Sections" rows={comparison.sections} />
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect } from 'react';
+import { EMBEDDING_CONNECT_SOURCES } from '@shared/schema';
 
 export function SecurityHeaders() {
   useEffect(() => {
@@ -17,7 +18,7 @@ export function SecurityHeaders() {
       script-src 'self' 'unsafe-inline' 'unsafe-eval' https://cdnjs.cloudflare.com;
       style-src 'self' 'unsafe-inline' https://fonts.googleapis.com;
       img-src 'self' data: https:;
-      connect-src 'self' https://api.openai.com;
+      connect-src 'self' ${EMBEDDING_CONNECT_SOURCES.join(' ')};
       font-src 'self' https://fonts.gstatic.com https://fonts.googleapis.com;
       frame-ancestors 'none';
       base-uri 'self';
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { type SimilarityMatrix, type CompetitorResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ArrowDownWideNarrow, List } from "lucide-react";
+
+interface SimilarityHeatmapProps {
+  main: SimilarityMatrix;
+  competitors: CompetitorResult[];
+}
+
+type SortMode = 'keyword' | 'gap';
+
+const bestOf = (row: number[]) => (row.length > 0 ? Math.max(...row) : 0);
+
+// Similarities from embedding models rarely leave the 10-60 range, so stretch that band across the scale
+const cellColor = (value: number) => {
+  const intensity = Math.min(1, Math.max(0, (value - 15) / 45));
+  return `rgba(139, 92, 246, ${0.08 + intensity * 0.82})`;
+};
+
+export function SimilarityHeatmap({ main, competitors }: SimilarityHeatmapProps) {
+  const [sortMode, setSortMode] = useState<SortMode>('gap');
+  // null shows your content, otherwise the named competitor
+  const [view, setView] = useState<string | null>(null);
+  const matrix = competitors.find(c => c.name === view)?.similarityMatrix ?? main;
+
+  // Gap = how much better the best competitor section matches a keyword than ours does
+  const rows = main.keywords.map((keyword, index) => {
+    const yourBest = bestOf(main.values[index]);
+    const competitorBest = Math.max(...competitors.map(c => bestOf(c.similarityMatrix.values[index])));
+    return {
+      keyword,
+      values: matrix.values[index],
+      yourBest,
+      competitorBest,
+      gap: Math.round((competitorBest - yourBest) * 10) / 10
+    };
+  });
+
+  const sortedRows = sortMode === 'gap'
+    ? [...rows].sort((a, b) => b.gap - a.gap)
+    : rows;
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <select
+            value={view ?? ""}
+            onChange={(e) => setView(e.target.value || null)}
+            className="h-8 px-2 text-sm border rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">Your Content</option>
+            {competitors.map(c => (
+              <option key={c.name} value={c.name}>{c.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={sortMode === 'gap' ? "secondary" : "ghost"}
+              onClick={() => setSortMode('gap')}
+            >
+              <ArrowDownWideNarrow className="h-3 w-3 mr-1" />
+              Largest gap first
+            </Button>
+            <Button
+              size="sm"
+              variant={sortMode === 'keyword' ? "secondary" : "ghost"}
+              onClick={() => setSortMode('keyword')}
+            >
+              <List className="h-3 w-3 mr-1" />
+              Keyword order
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-muted-foreground pr-2">Keyword</th>
+                {matrix.sections.map((section, index) => (
+                  <th key={index} className="font-medium text-muted-foreground max-w-[96px] truncate" title={section}>
+                    {section}
+                  </th>
+                ))}
+                <th className="font-medium text-muted-foreground pl-2">Gap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row) => (
+                <tr key={row.keyword}>
+                  <td className="font-medium pr-2 whitespace-nowrap">{row.keyword}</td>
+                  {row.values.map((value, sectionIndex) => (
+                    <td key={sectionIndex} className="p-0">
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <div
+                            className={`h-8 min-w-[56px] rounded flex items-center justify-center cursor-default ${value >= 40 ? 'text-white' : 'text-gray-800'}`}
+                            style={{ backgroundColor: cellColor(value) }}
+                          >
+                            {value}
+                          </div>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          "{row.keyword}" vs {matrix.sections[sectionIndex]}: {value}% similarity
+                        </TooltipContent>
+                      </Tooltip>
+                    </td>
+                  ))}
+                  <td className="pl-2">
+                    <Badge
+                      variant={row.gap > 5 ? "destructive" : row.gap < -5 ? "default" : "secondary"}
+                      className="text-xs whitespace-nowrap"
+                    >
+                      {row.gap > 0 ? '+' : ''}{row.gap}
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Each cell is the similarity between one keyword and one section. Gap compares the best-matching section across
+          all competitors with yours: positive values mean some competitor addresses that keyword more directly, so that
+          is the topic to strengthen in your weakest-scoring section for it.
+        </p>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -4,59 +4,80 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ChevronDown, ChevronUp, Search, CheckCircle, AlertTriangle } from "lucide-react";
-import { type KeywordCoverage, type ChunkResult } from "@shared/schema";
+import { type KeywordCoverage, type ChunkResult, type SourceSpan, type LexicalStats } from "@shared/schema";
+import { createSpanResolver, findKeywordSpans, formatSpanLines } from "@/lib/text-analysis";
+import { type KeywordVariants, type VariantMatch, findVariantMatches } from "@/lib/keyword-variants";
+import { formatVolume } from "@/lib/keyword-import";
+import { coverageRole, ROLE_LABELS } from "@/lib/analysis";
+
+const PLACEMENT_LABELS: Record<keyof LexicalStats['placement'], string> = {
+  title: "Title",
+  h1: "H1",
+  h2: "H2",
+  firstParagraph: "First paragraph",
+  metaDescription: "Meta description"
+};
+
+// 'partial' snippets are a fallback for copy with no counted mention at all
+type SnippetKind = VariantMatch['kind'] | 'partial';
+
+const MATCH_KIND_LABELS: Record<SnippetKind, string> = {
+  exact: "Exact match",
+  variant: "Variant (stem or plural)",
+  synonym: "Synonym or acronym",
+  partial: "Partial match (not counted as a mention)"
+};
 
 interface TextEvidenceProps {
   keyword: KeywordCoverage;
+  variants: KeywordVariants; // forms of the keyword counted as mentions
   userText: string;
+  competitorName: string;
   competitorText: string;
   chunks?: ChunkResult[]; // optional: main copy chunks with titles and text
 }
 
-export function TextEvidence({ keyword, userText, competitorText, chunks }: TextEvidenceProps) {
+export function TextEvidence({ keyword, variants, userText, competitorName, competitorText, chunks }: TextEvidenceProps) {
   const [showEvidence, setShowEvidence] = useState(false);
   
-  // Extract text snippets showing keyword usage
-  const getUserSnippets = (text: string, keyword: string) => {
-    // Escape special regex characters in keyword
-    const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(`(.{0,50}\\b${escapedKeyword}\\b.{0,50})`, 'gi');
-    const matches = text.match(regex) || [];
+  // Extract text snippets showing keyword usage, with ~50 characters of context either side
+  const getUserSnippets = (text: string) => {
+    const resolve = createSpanResolver(text);
+    let matches: Array<{ span: SourceSpan; kind: SnippetKind }> =
+      findVariantMatches(text, variants).map(match => ({ span: resolve(match.start, match.end), kind: match.kind }));
     
-    // If no exact matches, try partial matches
+    // If no variant matches, try partial matches
     if (matches.length === 0) {
-      const partialRegex = new RegExp(`(.{0,50}${escapedKeyword}.{0,50})`, 'gi');
-      const partialMatches = text.match(partialRegex) || [];
-      return partialMatches.slice(0, 3);
+      matches = findKeywordSpans(text, keyword.keyword, false).map(span => ({ span, kind: 'partial' as const }));
     }
     
-    return matches.slice(0, 3); // Show max 3 examples
+    return matches.slice(0, 3).map(({ span, kind }) => ({ // Show max 3 examples
+      span,
+      kind,
+      before: text.slice(Math.max(0, span.start - 50), span.start),
+      match: text.slice(span.start, span.end),
+      after: text.slice(span.end, span.end + 50)
+    }));
   };
   
-  const getSemanticSnippets = (text: string, sections: string[]) => {
+  const getSemanticSnippets = (text: string, sections: string[]): Array<{ text: string, span?: SourceSpan }> => {
     // Try to map section names to chunk text if chunks are provided
     if (chunks && chunks.length > 0) {
       return sections.slice(0, 2).map(sectionName => {
         const match = chunks.find(c => c.title.toLowerCase() === sectionName.toLowerCase());
         if (match) {
           // Return first 40 words from the chunk for context
-          return match.text.split(/\s+/).slice(0, 40).join(' ');
+          return { text: match.text.split(/\s+/).slice(0, 40).join(' '), span: match.span };
         }
-        return "";
+        return { text: "" };
       });
     }
-    // Fallback to naive slicing across whole text
-    const words = text.split(/\s+/);
-    const snippetLength = 100;
-    return sections.slice(0, 2).map((_, index) => {
-      const startIndex = Math.floor((index / sections.length) * words.length);
-      const endIndex = Math.min(startIndex + snippetLength, words.length);
-      return words.slice(startIndex, endIndex).join(' ');
-    });
+    // Without chunks the only section is the full content
+    return sections.slice(0, 2).map(() => ({ text: text.split(/\s+/).slice(0, 40).join(' ') }));
   };
   
-  const userSnippets = getUserSnippets(userText, keyword.keyword);
-  const competitorSnippets = getUserSnippets(competitorText, keyword.keyword);
+  const userSnippets = getUserSnippets(userText);
+  const competitorSnippets = getUserSnippets(competitorText);
   const strongSnippets = getSemanticSnippets(userText, keyword.strongSections);
   const weakSnippets = getSemanticSnippets(userText, keyword.weakSections);
   
@@ -68,12 +89,19 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
           <h4 className="font-medium flex items-center gap-2">
             {keyword.keyword}
             <Badge variant="outline" className="text-xs">
-                                      Role: {keyword.weight > 1 ? 'Main Topic' : 'Supporting Topic'}
+              Role: {ROLE_LABELS[coverageRole(keyword)]}
             </Badge>
+            <Badge variant="secondary" className="text-xs">Weight {keyword.weight}</Badge>
+            {keyword.intent && <Badge variant="secondary" className="text-xs capitalize">{keyword.intent}</Badge>}
+            {keyword.searchVolume !== undefined && (
+              <Badge variant="secondary" className="text-xs">{formatVolume(keyword.searchVolume)} searches/mo</Badge>
+            )}
           </h4>
           <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
             <span>{keyword.directMentions} direct mentions</span>
+            {variants.synonyms.length > 0 && <span>Synonyms: {variants.synonyms.join(", ")}</span>}
             <span>{keyword.semanticCoverage}% semantic coverage</span>
+            <span>{competitorName}: {keyword.competitorSemanticCoverage}%</span>
           </div>
         </div>
         {keyword.competitorAdvantage && (
@@ -89,15 +117,74 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
         <div className="bg-blue-50 p-3 rounded">
           <div className="text-sm font-medium text-blue-900">Your Content</div>
           <div className="text-2xl font-bold text-blue-700">{keyword.directMentions}</div>
-          <div className="text-xs text-blue-600">mentions found</div>
+          <div className="text-xs text-blue-600">mentions found · {keyword.semanticCoverage}% covered</div>
         </div>
         <div className="bg-gray-50 p-3 rounded">
-          <div className="text-sm font-medium text-gray-900">Competitor Content</div>
+          <div className="text-sm font-medium text-gray-900 truncate" title={competitorName}>{competitorName}</div>
           <div className="text-2xl font-bold text-gray-700">{keyword.competitorMentions}</div>
-          <div className="text-xs text-gray-600">mentions found</div>
+          <div className="text-xs text-gray-600">mentions found · {keyword.competitorSemanticCoverage}% covered</div>
         </div>
       </div>
       
+      {/* Density, prominence and placement */}
+      {keyword.lexical && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+            <span>{keyword.lexical.mentions} mentions incl. variants</span>
+            <span>{keyword.lexical.density} per 100 words</span>
+            <span>
+              {keyword.lexical.firstOccurrence === null
+                ? "Never mentioned"
+                : `First mention ${keyword.lexical.firstOccurrence}% into the page`}
+            </span>
+            {keyword.lexical.variantsFound.length > 0 && (
+              <span>Also as: {keyword.lexical.variantsFound.slice(0, 4).join(", ")}</span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(PLACEMENT_LABELS) as Array<keyof LexicalStats['placement']>).map(place => {
+              const present = keyword.lexical!.placement[place];
+              return (
+                <Badge
+                  key={place}
+                  variant={present ? "default" : present === false ? "outline" : "secondary"}
+                  className="text-xs"
+                  title={present === null ? `The page has no ${PLACEMENT_LABELS[place].toLowerCase()}` : undefined}
+                >
+                  {present ? "✓" : present === false ? "✗" : "–"} {PLACEMENT_LABELS[place]}
+                </Badge>
+              );
+            })}
+          </div>
+          {keyword.lexical.warnings.map(warning => (
+            <div key={warning} className="flex items-center gap-2 text-xs text-yellow-700 bg-yellow-50 p-2 rounded">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              Over-optimization: {warning}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Related terms competitors use that this copy doesn't */}
+      {keyword.missingTerms && keyword.missingTerms.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium mb-2">Terms competitors use that you don't</h5>
+          <div className="flex flex-wrap gap-2">
+            {keyword.missingTerms.map(term => (
+              <Badge
+                key={term.term}
+                variant="outline"
+                className="text-xs"
+                title={`Used by ${term.competitors} competitor${term.competitors !== 1 ? 's' : ''} (${term.mentions} mentions), ${term.similarity}% similar to "${keyword.keyword}"`}
+              >
+                {term.term}
+                <span className="ml-1 text-muted-foreground">×{term.competitors}</span>
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Evidence Toggle */}
       <Collapsible open={showEvidence} onOpenChange={setShowEvidence}>
         <CollapsibleTrigger asChild>
@@ -119,12 +206,16 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
               <div className="space-y-2">
                 {userSnippets.map((snippet, index) => (
                   <div key={index} className="bg-green-50 p-2 rounded text-sm">
+                    <span className="text-xs text-muted-foreground mr-2">{formatSpanLines(snippet.span)}</span>
                     <span className="text-gray-600">
-                      {snippet.split(new RegExp(`(\\b${keyword.keyword}\\b)`, 'gi')).map((part, i) => 
-                        part.toLowerCase() === keyword.keyword.toLowerCase() ? 
-                          <mark key={i} className="bg-green-200 font-medium">{part}</mark> : 
-                          part
-                      )}
+                      {snippet.before}
+                      <mark
+                        className={`font-medium ${snippet.kind === 'exact' ? 'bg-green-200' : 'bg-green-100 underline decoration-dotted'}`}
+                        title={MATCH_KIND_LABELS[snippet.kind]}
+                      >
+                        {snippet.match}
+                      </mark>
+                      {snippet.after}
                     </span>
                   </div>
                 ))}
@@ -147,9 +238,12 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
                 {keyword.strongSections.map((section, index) => (
                   <div key={index} className="bg-green-50 p-2 rounded">
                     <Badge variant="secondary" className="text-xs mb-1">{section}</Badge>
-                    {strongSnippets[index] && (
+                    {strongSnippets[index]?.span && (
+                      <span className="text-xs text-muted-foreground ml-2">{formatSpanLines(strongSnippets[index].span!)}</span>
+                    )}
+                    {strongSnippets[index]?.text && (
                       <div className="text-sm text-gray-700 mt-1">
-                        "{strongSnippets[index]}..."
+                        "{strongSnippets[index].text}..."
                       </div>
                     )}
                   </div>
@@ -173,9 +267,12 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
                 {keyword.weakSections.map((section, index) => (
                   <div key={index} className="bg-yellow-50 p-2 rounded">
                     <Badge variant="outline" className="text-xs mb-1">{section}</Badge>
-                    {weakSnippets[index] && (
+                    {weakSnippets[index]?.span && (
+                      <span className="text-xs text-muted-foreground ml-2">{formatSpanLines(weakSnippets[index].span!)}</span>
+                    )}
+                    {weakSnippets[index]?.text && (
                       <div className="text-sm text-gray-700 mt-1">
-                        "{weakSnippets[index]}..."
+                        "{weakSnippets[index].text}..."
                       </div>
                     )}
                     <div className="text-xs text-yellow-600 mt-1">
@@ -194,16 +291,20 @@ export function TextEvidence({ keyword, userText, competitorText, chunks }: Text
           {/* Competitor Comparison */}
           {competitorSnippets.length > 0 && (
             <div>
-              <h5 className="font-medium text-sm mb-2">How Competitor Uses This Keyword</h5>
+              <h5 className="font-medium text-sm mb-2">How {competitorName} Uses This Keyword</h5>
               <div className="space-y-2">
                 {competitorSnippets.slice(0, 2).map((snippet, index) => (
                   <div key={index} className="bg-gray-50 p-2 rounded text-sm">
+                    <span className="text-xs text-muted-foreground mr-2">{formatSpanLines(snippet.span)}</span>
                     <span className="text-gray-600">
-                      {snippet.split(new RegExp(`(\\b${keyword.keyword}\\b)`, 'gi')).map((part, i) => 
-                        part.toLowerCase() === keyword.keyword.toLowerCase() ? 
-                          <mark key={i} className="bg-gray-200 font-medium">{part}</mark> : 
-                          part
-                      )}
+                      {snippet.before}
+                      <mark
+                        className={`font-medium ${snippet.kind === 'exact' ? 'bg-gray-200' : 'bg-gray-100 underline decoration-dotted'}`}
+                        title={MATCH_KIND_LABELS[snippet.kind]}
+                      >
+                        {snippet.match}
+                      </mark>
+                      {snippet.after}
                     </span>
                   </div>
                 ))}
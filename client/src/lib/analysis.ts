@@ -1,5 +1,5 @@
-import { type Keyword, type KeywordCoverage, type KeywordRole } from "@shared/schema";
-import { detectSections, type TextSection } from "./text-analysis";
+import { type Keyword, type KeywordCoverage, type AnalysisResult, type AnalysisRun, type KeywordRole, type ChunkingStrategy } from "@shared/schema";
+import { detectSections, splitLongSections, type TextSection } from "./text-analysis";
 
 export function parseKeywords(input: string): Keyword[] {
   if (!input.trim()) return [];
@@ -44,16 +44,17 @@ export function validateApiKey(key: string): boolean {
   return key.startsWith('sk-') && key.length > 10;
 }
 
-// New intelligent chunking function
-export function intelligentChunkText(text: string): Array<{text: string, startIndex: number, endIndex: number, title: string}> {
-  const sections = detectSections(text);
-  
-  return sections.map(section => ({
-    text: section.content,
-    startIndex: section.startIndex,
-    endIndex: section.endIndex,
-    title: section.title
-  }));
+// Structural chunking: real headings (or paragraphs) first, long sections cut into token-bounded windows
+export function intelligentChunkText(text: string, strategy: ChunkingStrategy = 'auto'): TextSection[] {
+  const sections = splitLongSections(text, detectSections(text, strategy));
+
+  // Repeated headings (e.g. two "FAQ" blocks) need distinct titles because results refer to sections by title
+  const seen = new Map<string, number>();
+  return sections.map(section => {
+    const count = (seen.get(section.title) || 0) + 1;
+    seen.set(section.title, count);
+    return count > 1 ? { ...section, title: `${section.title} (${count})` } : section;
+  });
 }
 
 // Keep original function for backward compatibility
@@ -99,6 +100,26 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 
 // --- Score Prediction Utilities ---
 
+// A keyword needs this many observed edits before its own history replaces the fixed formula;
+// the same number of edits across all keywords is enough to rescale the formula instead
+const MIN_CALIBRATION_SAMPLES = 3;
+
+// Two-sided 95% Student t critical values for 1-10 degrees of freedom
+const T_CRITICAL_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23];
+
+function tCritical95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= T_CRITICAL_95.length) return T_CRITICAL_95[degreesOfFreedom - 1];
+  if (degreesOfFreedom <= 20) return 2.09;
+  if (degreesOfFreedom <= 30) return 2.04;
+  return 1.96;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// 'keyword-history': mean lift observed for this keyword; 'history': the formula rescaled by all
+// observed lifts; 'formula': no usable history yet
+export type PredictionBasis = 'keyword-history' | 'history' | 'formula';
+
 export interface ScorePrediction {
   keyword: string;
   currentMentions: number;
@@ -106,12 +127,105 @@ export interface ScorePrediction {
   currentScore: number;
   predictedScore: number;
   impact: number;
+  interval: { low: number; high: number } | null; // 95% interval for impact; null for the formula
+  basis: PredictionBasis;
+  samples: number;
+}
+
+// One keyword whose mentions went up between two consecutive runs of the same page
+export interface LiftObservation {
+  keyword: string;
+  formulaImpact: number; // what the fixed formula predicted for the earlier run
+  observedLift: number; // change in the keyword's score contribution
+}
+
+// The fixed formula: missing coverage x weight, up to 10 points per unit of weight
+function formulaImpact(ka: KeywordCoverage): number {
+  const missingCoverage = 100 - ka.semanticCoverage;
+  const baseImpact = (missingCoverage / 100) * 10;
+  return round1(baseImpact * ka.weight);
+}
+
+// Before/after pairs from history: consecutive runs of a page with the same embedding model,
+// analysis mode and scoring strategy, since lifts are not comparable across any of them
+export function collectLiftObservations(runs: AnalysisRun[], model: string): LiftObservation[] {
+  const pages = new Map<string, AnalysisRun[]>();
+  runs
+    .filter(run => run.result.embedding.model === model)
+    .forEach(run => pages.set(run.pageName, [...(pages.get(run.pageName) || []), run]));
+
+  const observations: LiftObservation[] = [];
+  pages.forEach(pageRuns => {
+    pageRuns.sort((a, b) => a.createdAt - b.createdAt);
+    for (let i = 1; i < pageRuns.length; i++) {
+      const [before, after] = [pageRuns[i - 1], pageRuns[i]];
+      if (before.analysisMode !== after.analysisMode) continue;
+      if ((before.scoringStrategy ?? 'centroid') !== (after.scoringStrategy ?? 'centroid')) continue;
+
+      before.result.keywordAnalysis.forEach(ka => {
+        const later = after.result.keywordAnalysis.find(candidate => candidate.keyword === ka.keyword);
+        if (!later || ka.scoreContribution === undefined || later.scoreContribution === undefined) return;
+        if (later.directMentions <= ka.directMentions) return;
+
+        observations.push({
+          keyword: ka.keyword,
+          formulaImpact: formulaImpact(ka),
+          observedLift: later.scoreContribution - ka.scoreContribution
+        });
+      });
+    }
+  });
+
+  return observations;
+}
+
+function estimateImpact(
+  ka: KeywordCoverage,
+  observations: LiftObservation[]
+): Pick<ScorePrediction, 'impact' | 'interval' | 'basis' | 'samples'> {
+  const formula = formulaImpact(ka);
+
+  const own = observations.filter(o => o.keyword === ka.keyword).map(o => o.observedLift);
+  if (own.length >= MIN_CALIBRATION_SAMPLES) {
+    const n = own.length;
+    const mean = own.reduce((sum, lift) => sum + lift, 0) / n;
+    const sd = Math.sqrt(own.reduce((sum, lift) => sum + (lift - mean) ** 2, 0) / (n - 1));
+    const half = tCritical95(n - 1) * sd / Math.sqrt(n);
+    return {
+      impact: round1(mean),
+      interval: { low: round1(mean - half), high: round1(mean + half) },
+      basis: 'keyword-history',
+      samples: n
+    };
+  }
+
+  // Least-squares fit of observed = scale x formula, with a prediction interval for this keyword
+  const usable = observations.filter(o => o.formulaImpact > 0);
+  if (usable.length >= MIN_CALIBRATION_SAMPLES) {
+    const n = usable.length;
+    const sxx = usable.reduce((sum, o) => sum + o.formulaImpact ** 2, 0);
+    const scale = usable.reduce((sum, o) => sum + o.formulaImpact * o.observedLift, 0) / sxx;
+    const residual = Math.sqrt(
+      usable.reduce((sum, o) => sum + (o.observedLift - scale * o.formulaImpact) ** 2, 0) / (n - 1)
+    );
+    const impact = scale * formula;
+    const half = tCritical95(n - 1) * residual * Math.sqrt(1 + formula ** 2 / sxx);
+    return {
+      impact: round1(impact),
+      interval: { low: round1(impact - half), high: round1(impact + half) },
+      basis: 'history',
+      samples: n
+    };
+  }
+
+  return { impact: formula, interval: null, basis: 'formula', samples: 0 };
 }
 
 export function calculateScorePredictions(
   currentScore: number,
   keywordAnalysis: KeywordCoverage[],
-  competitorAnalysis?: KeywordCoverage[]
+  competitorAnalysis?: KeywordCoverage[],
+  observations: LiftObservation[] = []
 ): ScorePrediction[] {
   const predictions: ScorePrediction[] = [];
 
@@ -124,19 +238,15 @@ export function calculateScorePredictions(
         ? Math.max(3, Math.ceil(competitorData.directMentions * 0.8))
         : 3;
 
-      // Compute impact based on missing coverage and weight
-      const missingCoverage = 100 - ka.semanticCoverage;
-      const weightMultiplier = ka.weight;
-      const baseImpact = (missingCoverage / 100) * 10; // Max 10% per keyword
-      const impact = Math.round(baseImpact * weightMultiplier * 10) / 10;
+      const estimate = estimateImpact(ka, observations);
 
       predictions.push({
         keyword: ka.keyword,
         currentMentions: ka.directMentions,
         suggestedMentions: targetMentions,
         currentScore,
-        predictedScore: Math.min(100, currentScore + impact),
-        impact,
+        predictedScore: Math.min(100, round1(currentScore + estimate.impact)),
+        ...estimate
       });
     }
   });
@@ -145,16 +255,159 @@ export function calculateScorePredictions(
   return predictions.sort((a, b) => b.impact - a.impact).slice(0, 5);
 }
 
-export function calculateCumulativeImpact(predictions: ScorePrediction[]): number {
+// bound picks the low or high end of each prediction's interval instead of its estimate. The
+// result is a best/worst-case range, not a 95% interval: endpoints do not add up that way.
+export function calculateCumulativeImpact(
+  predictions: ScorePrediction[],
+  bound?: 'low' | 'high'
+): number {
   if (predictions.length === 0) return 0;
 
   let cumulativeScore = predictions[0].currentScore;
   let diminishingFactor = 1;
 
   predictions.forEach((pred) => {
-    cumulativeScore += pred.impact * diminishingFactor;
+    const impact = bound && pred.interval ? pred.interval[bound] : pred.impact;
+    cumulativeScore += impact * diminishingFactor;
     diminishingFactor *= 0.8; // Diminishing returns
   });
 
   return Math.min(100, Math.round(cumulativeScore * 10) / 10);
 }
+
+export interface KeywordOutcome {
+  keyword: string;
+  predictedLift: number; // 0 for keywords no change was predicted for
+  actualLift: number | null; // change in the keyword's score contribution; null for older runs
+  mentionsBefore: number;
+  mentionsAfter: number;
+  coverageBefore: number;
+  coverageAfter: number;
+}
+
+export interface EnhancementOutcome {
+  scoreBefore: number;
+  predictedScore: number;
+  actualScore: number;
+  keywords: KeywordOutcome[];
+}
+
+// Checks the predictions made for the original copy against a re-analysis of the enhanced copy
+export function compareWithPredictions(
+  before: AnalysisResult,
+  after: AnalysisResult,
+  observations: LiftObservation[] = []
+): EnhancementOutcome {
+  const predictions = calculateScorePredictions(before.mainCopyScore, before.keywordAnalysis, undefined, observations);
+  const afterByKeyword = new Map(after.keywordAnalysis.map(ka => [ka.keyword, ka]));
+
+  return {
+    scoreBefore: before.mainCopyScore,
+    predictedScore: predictions.length > 0 ? calculateCumulativeImpact(predictions) : before.mainCopyScore,
+    actualScore: after.mainCopyScore,
+    keywords: before.keywordAnalysis.map(ka => {
+      const enhanced = afterByKeyword.get(ka.keyword);
+      const contributionBefore = ka.scoreContribution;
+      const contributionAfter = enhanced?.scoreContribution;
+      return {
+        keyword: ka.keyword,
+        predictedLift: predictions.find(p => p.keyword === ka.keyword)?.impact ?? 0,
+        actualLift: contributionBefore !== undefined && contributionAfter !== undefined
+          ? Math.round((contributionAfter - contributionBefore) * 10) / 10
+          : null,
+        mentionsBefore: ka.directMentions,
+        mentionsAfter: enhanced?.directMentions ?? ka.directMentions,
+        coverageBefore: ka.semanticCoverage,
+        coverageAfter: enhanced?.semanticCoverage ?? ka.semanticCoverage
+      };
+    })
+  };
+}
+
+// --- Run Comparison Utilities ---
+
+export interface ScoreDelta {
+  label: string;
+  before: number | null; // null when the item only exists in one of the runs
+  after: number | null;
+  delta: number | null;
+}
+
+export interface RunComparison {
+  overall: ScoreDelta;
+  competitorMedian: ScoreDelta;
+  keywords: ScoreDelta[]; // semantic coverage per keyword
+  sections: ScoreDelta[]; // chunk scores, matched by section title
+}
+
+function scoreDelta(label: string, before: number | undefined, after: number | undefined): ScoreDelta {
+  return {
+    label,
+    before: before ?? null,
+    after: after ?? null,
+    delta: before !== undefined && after !== undefined ? Math.round((after - before) * 10) / 10 : null
+  };
+}
+
+// Pair items by label, keeping the newer run's order and appending ones that were dropped
+function pairByLabel<T>(before: T[], after: T[], label: (item: T) => string, value: (item: T) => number): ScoreDelta[] {
+  const beforeByLabel = new Map(before.map(item => [label(item), value(item)]));
+  const afterLabels = new Set(after.map(label));
+
+  return [
+    ...after.map(item => scoreDelta(label(item), beforeByLabel.get(label(item)), value(item))),
+    ...before
+      .filter(item => !afterLabels.has(label(item)))
+      .map(item => scoreDelta(label(item), value(item), undefined))
+  ];
+}
+
+export function compareRuns(before: AnalysisResult, after: AnalysisResult): RunComparison {
+  return {
+    overall: scoreDelta('Your Content', before.mainCopyScore, after.mainCopyScore),
+    competitorMedian: scoreDelta('Competitor Median', before.competitorMedianScore, after.competitorMedianScore),
+    keywords: pairByLabel(before.keywordAnalysis, after.keywordAnalysis, ka => ka.keyword, ka => ka.semanticCoverage),
+    sections: pairByLabel(before.mainCopyChunks || [], after.mainCopyChunks || [], chunk => chunk.title, chunk => chunk.score)
+  };
+}
+
+// --- Keyword Group Utilities ---
+
+export const ROLE_LABELS: Record<KeywordRole, string> = {
+  main: 'Main Topic',
+  supporting: 'Supporting Topic'
+};
+
+// Runs saved before coverage carried the role only have the weight; main topics defaulted to 3
+export function coverageRole(keywordCoverage: KeywordCoverage): KeywordRole {
+  return keywordCoverage.role ?? (keywordCoverage.weight > 1 ? 'main' : 'supporting');
+}
+
+export interface KeywordCoverageGroup {
+  name: string | null; // null for keywords without a group
+  keywords: KeywordCoverage[];
+  coverage: number; // semantic coverage averaged by keyword weight, 0-100%
+  searchVolume: number | null; // total over keywords with a known volume
+}
+
+// Groups in order of their first keyword, with ungrouped keywords last
+export function groupKeywordCoverage(keywordAnalysis: KeywordCoverage[]): KeywordCoverageGroup[] {
+  const groups = new Map<string | null, KeywordCoverage[]>();
+  keywordAnalysis.forEach(ka => {
+    const name = ka.group ?? null;
+    groups.set(name, [...(groups.get(name) ?? []), ka]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => Number(a === null) - Number(b === null))
+    .map(([name, keywords]) => {
+      const totalWeight = keywords.reduce((sum, ka) => sum + ka.weight, 0);
+      const volumes = keywords.map(ka => ka.searchVolume).filter((v): v is number => v !== undefined);
+      return {
+        name,
+        keywords,
+        coverage: Math.round(keywords.reduce((sum, ka) => sum + ka.semanticCoverage * ka.weight, 0) / totalWeight),
+        searchVolume: volumes.length > 0 ? volumes.reduce((sum, v) => sum + v, 0) : null
+      };
+    });
+}
@@ -0,0 +1,96 @@
+// Myers' O((N+M)D) shortest edit script over any sequence compared with ===
+
+export type EditOp = 'equal' | 'delete' | 'insert';
+
+// One op per element of a or b, in order: 'delete' consumes an element of a, 'insert' one of b and
+// 'equal' one of each. Returns null when more than maxEdits changes would be needed, so callers can
+// fall back to a coarser diff instead of paying for a huge one.
+export function myersDiff<T>(a: T[], b: T[], maxEdits: number = Infinity): EditOp[] | null {
+  // Common prefix and suffix never need the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = shortestEditScript(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+    maxEdits
+  );
+  if (!middle) return null;
+
+  const equal = (count: number): EditOp[] => new Array(count).fill('equal');
+  return [...equal(prefix), ...middle, ...equal(suffix)];
+}
+
+function shortestEditScript<T>(a: T[], b: T[], maxEdits: number): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return new Array(m).fill('insert');
+  if (m === 0) return new Array(n).fill('delete');
+
+  const max = n + m;
+  const offset = max + 1;
+  // v[offset + k] is the furthest x reached on diagonal k = x - y
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds diagonals -d..d as they were before round d, for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    ops.push(prevK === k + 1 ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
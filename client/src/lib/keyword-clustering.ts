@@ -0,0 +1,91 @@
+// Groups keywords into topics by embedding similarity so roles can be proposed instead of set one
+// by one, and finds near-duplicates that would pull the centroid towards one phrasing.
+import { type Keyword } from "@shared/schema";
+import { cosineSimilarity } from "./analysis";
+import { tokenizeWords } from "./keyword-variants";
+
+// Average-linkage similarity at which two groups of keywords are one topic
+const CLUSTER_SIMILARITY = 0.5;
+// Keywords this similar say the same thing and double-count it in the centroid
+const NEAR_DUPLICATE_SIMILARITY = 0.9;
+
+export interface KeywordCluster {
+  members: number[]; // keyword indexes, main first
+  main: number | null; // proposed main keyword; null for a lone keyword
+}
+
+export interface NearDuplicate {
+  keep: number;
+  drop: number;
+  similarity: number; // 0-100
+}
+
+export interface KeywordOrganization {
+  clusters: KeywordCluster[]; // largest first
+  duplicates: NearDuplicate[];
+}
+
+const stemKey = (text: string) => tokenizeWords(text).map(token => token.stem).join(' ');
+
+// embeddings[i] belongs to keywords[i]
+export function organizeKeywords(keywords: Keyword[], embeddings: number[][]): KeywordOrganization {
+  const n = keywords.length;
+  const similarity = embeddings.map(a => embeddings.map(b => cosineSimilarity(a, b)));
+  // The keyword closest to all the others represents a group best
+  const centrality = (index: number, group: number[]) =>
+    group.reduce((sum, other) => (other === index ? sum : sum + similarity[index][other]), 0);
+  const everyone = Array.from({ length: n }, (_, i) => i);
+
+  // Near-duplicates: same stems ("pricing plan" / "pricing plans") or nearly identical vectors
+  const duplicates: NearDuplicate[] = [];
+  const dropped = new Set<number>();
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (dropped.has(i) || dropped.has(j)) continue;
+      if (similarity[i][j] < NEAR_DUPLICATE_SIMILARITY && stemKey(keywords[i].text) !== stemKey(keywords[j].text)) continue;
+
+      const [keep, drop] = keywords[j].weight > keywords[i].weight ||
+        (keywords[j].weight === keywords[i].weight && centrality(j, everyone) > centrality(i, everyone))
+        ? [j, i]
+        : [i, j];
+      duplicates.push({ keep, drop, similarity: Math.round(similarity[i][j] * 1000) / 10 });
+      dropped.add(drop);
+    }
+  }
+
+  // Average-linkage agglomerative clustering of the remaining keywords
+  let groups = everyone.filter(i => !dropped.has(i)).map(i => [i]);
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, i) => sum + b.reduce((inner, j) => inner + similarity[i][j], 0), 0) / (a.length * b.length);
+
+  while (groups.length > 1) {
+    let best = { a: -1, b: -1, score: CLUSTER_SIMILARITY };
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        const score = linkage(groups[a], groups[b]);
+        if (score >= best.score) best = { a, b, score };
+      }
+    }
+    if (best.a === -1) break;
+    groups = [
+      ...groups.filter((_, i) => i !== best.a && i !== best.b),
+      [...groups[best.a], ...groups[best.b]]
+    ];
+  }
+
+  const clusters = groups
+    .map(group => {
+      const members = [...group].sort((a, b) => centrality(b, group) - centrality(a, group));
+      return { members, main: members.length > 1 ? members[0] : null };
+    })
+    .sort((a, b) => b.members.length - a.members.length);
+
+  // With no topic of more than one keyword, still propose the most central keyword overall
+  if (clusters.length > 0 && clusters.every(cluster => cluster.main === null)) {
+    const remaining = clusters.map(cluster => cluster.members[0]);
+    const central = remaining.reduce((best, i) => (centrality(i, remaining) > centrality(best, remaining) ? i : best));
+    clusters.find(cluster => cluster.members[0] === central)!.main = central;
+  }
+
+  return { clusters, duplicates };
+}
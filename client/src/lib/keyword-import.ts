@@ -0,0 +1,229 @@
+// Keyword lists from spreadsheets: CSV/TSV exports of keyword research tools (Semrush, Ahrefs,
+// Google Keyword Planner, Search Console) with their volume, difficulty and intent columns.
+import { type Keyword, type KeywordIntent, type KeywordRole } from "@shared/schema";
+
+const MAX_KEYWORDS = 50;
+
+export type ImportColumn = 'keyword' | 'searchVolume' | 'difficulty' | 'intent' | 'group';
+
+// Column index per field; null when the file has no such column
+export type ColumnMapping = Record<ImportColumn, number | null>;
+
+export type VolumeCurve = 'flat' | 'linear' | 'sqrt' | 'log';
+
+export const VOLUME_CURVES: Record<VolumeCurve, { label: string; description: string }> = {
+  flat: {
+    label: "Flat",
+    description: "Ignore volume: every keyword gets the same weight"
+  },
+  linear: {
+    label: "Linear",
+    description: "Weight in proportion to volume; a few head terms dominate"
+  },
+  sqrt: {
+    label: "Square root",
+    description: "Volume counts, but long-tail keywords keep a meaningful share"
+  },
+  log: {
+    label: "Logarithmic",
+    description: "Each tenfold increase in volume adds the same weight"
+  }
+};
+
+export interface VolumeWeighting {
+  curve: VolumeCurve;
+  minWeight: number; // for the lowest volume in the list
+  maxWeight: number; // for the highest
+}
+
+export const DEFAULT_VOLUME_WEIGHTING: VolumeWeighting = { curve: 'sqrt', minWeight: 1, maxWeight: 3 };
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Header names the common tools use, lowercased
+const HEADER_ALIASES: Record<ImportColumn, string[]> = {
+  keyword: ['keyword', 'keywords', 'query', 'top queries', 'search term', 'term', 'phrase'],
+  searchVolume: ['search volume', 'volume', 'avg. monthly searches', 'avg monthly searches', 'monthly searches', 'sv', 'impressions'],
+  difficulty: ['keyword difficulty', 'difficulty', 'kd', 'kd %', 'kd%', 'competition (indexed value)', 'seo difficulty'],
+  intent: ['intent', 'intents', 'search intent', 'keyword intents'],
+  group: ['group', 'keyword group', 'ad group', 'parent topic', 'topic', 'cluster', 'category']
+};
+
+// Semrush exports intents as codes in some formats
+const INTENT_CODES: Record<string, KeywordIntent> = {
+  '0': 'commercial',
+  '1': 'informational',
+  '2': 'navigational',
+  '3': 'transactional'
+};
+
+const VOLUME_SUFFIXES: Record<string, number> = { k: 1000, m: 1000000 };
+
+const INTENTS: KeywordIntent[] = ['informational', 'navigational', 'commercial', 'transactional'];
+
+// Tabs win when the header row has any (TSV and copy-paste from a spreadsheet), then semicolons
+// (European CSV), then commas
+function detectDelimiter(firstLine: string): string {
+  if (firstLine.includes('\t')) return '\t';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+export function parseDelimited(input: string): ParsedTable {
+  const text = input.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field.trim());
+  records.push(record);
+
+  const nonEmpty = records.filter(row => row.some(cell => cell !== ''));
+  return { headers: nonEmpty[0] ?? [], rows: nonEmpty.slice(1) };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(header => header.toLowerCase().replace(/\s+/g, ' ').trim());
+  const find = (column: ImportColumn) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[column].includes(header));
+    return index === -1 ? null : index;
+  };
+
+  // Without a recognised keyword header, assume the keywords are in the first column
+  return {
+    keyword: find('keyword') ?? (headers.length > 0 ? 0 : null),
+    searchVolume: find('searchVolume'),
+    difficulty: find('difficulty'),
+    intent: find('intent'),
+    group: find('group')
+  };
+}
+
+// "12,100", "1.2K", "10K – 100K" (Keyword Planner ranges use the lower bound) or "" for none
+export function parseVolume(value: string): number | undefined {
+  const match = value.replace(/[,\s]/g, '').match(/^(\d*\.?\d+)([kKmM]?)/);
+  if (!match) return undefined;
+
+  const multiplier = VOLUME_SUFFIXES[match[2].toLowerCase()] ?? 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+const parsePercent = (value: string) => parseFloat(value.replace('%', ''));
+
+// 0-100 scores as is; Keyword Planner's 0-1 competition index is scaled up when the whole column
+// is on that scale, so a score of "1.0" in a 0-100 column stays 1
+function parseDifficulty(value: string, fractional: boolean): number | undefined {
+  const number = parsePercent(value);
+  if (isNaN(number) || number < 0) return undefined;
+  return Math.min(100, fractional ? Math.round(number * 100) : number);
+}
+
+// Tools list several intents ("Commercial, Transactional"); the first recognised one is kept
+export function parseIntent(value: string): KeywordIntent | undefined {
+  for (const part of value.toLowerCase().split(/[,;/|]/).map(p => p.trim())) {
+    if (INTENT_CODES[part]) return INTENT_CODES[part];
+    // Abbreviations like "info" or "trans" count, but not single letters or "n/a"
+    const intent = INTENTS.find(candidate => part.length >= 4 && candidate.startsWith(part));
+    if (intent) return intent;
+  }
+  return undefined;
+}
+
+export function volumeToWeight(volume: number, range: { min: number; max: number }, weighting: VolumeWeighting): number {
+  const { curve, minWeight, maxWeight } = weighting;
+  const scale = (v: number) => (curve === 'log' ? Math.log10(v + 1) : curve === 'sqrt' ? Math.sqrt(v) : v);
+  const span = scale(range.max) - scale(range.min);
+  if (curve === 'flat' || span <= 0) return minWeight;
+
+  const share = (scale(volume) - scale(range.min)) / span;
+  return Math.round((minWeight + share * (maxWeight - minWeight)) * 10) / 10;
+}
+
+// Rows without a keyword are skipped and repeated keywords keep their first row. The highest
+// volume keyword becomes the main topic; without volumes every keyword is supporting.
+export function importKeywords(table: ParsedTable, mapping: ColumnMapping, weighting: VolumeWeighting): Keyword[] {
+  if (mapping.keyword === null) return [];
+
+  const cell = (row: string[], column: ImportColumn) => {
+    const index = mapping[column];
+    return index === null ? '' : (row[index] ?? '');
+  };
+  const difficulties = table.rows.map(row => parsePercent(cell(row, 'difficulty'))).filter(number => !isNaN(number));
+  const fractional = difficulties.length > 0 && difficulties.every(number => number <= 1);
+
+  const seen = new Set<string>();
+  const imported = table.rows
+    .map(row => ({
+      // Commas and line breaks separate keywords in the keyword field
+      text: cell(row, 'keyword').replace(/[,\n]+/g, ' ').replace(/\s+/g, ' ').trim(),
+      searchVolume: parseVolume(cell(row, 'searchVolume')),
+      difficulty: parseDifficulty(cell(row, 'difficulty'), fractional),
+      intent: parseIntent(cell(row, 'intent')),
+      group: cell(row, 'group').slice(0, 100)
+    }))
+    .filter(row => {
+      const key = row.text.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEYWORDS);
+
+  const volumes = imported.map(row => row.searchVolume).filter((v): v is number => v !== undefined);
+  const range = { min: Math.min(...volumes), max: Math.max(...volumes) };
+  const top = volumes.length > 0 ? imported.findIndex(row => row.searchVolume === range.max) : -1;
+
+  return imported.map((row, index) => {
+    const role: KeywordRole = index === top ? 'main' : 'supporting';
+    const keyword: Keyword = {
+      text: row.text,
+      role,
+      // Keywords without a volume count as the lowest volume in the list
+      weight: volumes.length > 0 ? volumeToWeight(row.searchVolume ?? range.min, range, weighting) : 1
+    };
+    if (row.searchVolume !== undefined) keyword.searchVolume = row.searchVolume;
+    if (row.difficulty !== undefined) keyword.difficulty = row.difficulty;
+    if (row.intent !== undefined) keyword.intent = row.intent;
+    if (row.group) keyword.group = row.group;
+    return keyword;
+  });
+}
+
+// Compact volume for badges: 880, 1.2K, 2.5M
+export function formatVolume(volume: number): string {
+  if (volume >= 1000000) return `${Math.round(volume / 100000) / 10}M`;
+  if (volume >= 1000) return `${Math.round(volume / 100) / 10}K`;
+  return String(volume);
+}
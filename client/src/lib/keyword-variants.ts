@@ -0,0 +1,164 @@
+// Keyword variant expansion: a keyword matches its stemmed, plural and singular forms and any
+// synonyms or acronyms the user gave it, so "optimizing" and "SEO" count as mentions of
+// "search engine optimization" when they should.
+import { type Keyword } from "@shared/schema";
+
+const WORD_PATTERN = /[A-Za-z0-9À-ɏ]+(?:['’][A-Za-zÀ-ɏ]+)*/g;
+
+// Forms suffix stripping cannot relate to their base word
+const IRREGULAR_FORMS: Record<string, string> = {
+  children: 'child',
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  feet: 'foot',
+  teeth: 'tooth',
+  geese: 'goose',
+  analyses: 'analysis',
+  crises: 'crisis',
+  criteria: 'criterion',
+  phenomena: 'phenomenon',
+  indices: 'index',
+  bought: 'buy',
+  sold: 'sell',
+  ran: 'run',
+  written: 'write',
+  wrote: 'write'
+};
+
+// Words that only look inflected
+const UNINFLECTED = new Set(['news', 'series', 'species', 'always', 'perhaps', 'lens', 'bus', 'gas', 'this', 'thus', 'during', 'nothing', 'something', 'anything', 'everything']);
+
+export interface WordToken {
+  surface: string; // lowercased as written
+  stem: string;
+  start: number;
+  end: number;
+}
+
+export interface KeywordVariants {
+  keyword: string;
+  synonyms: string[];
+  // Stem sequences to look for: the keyword first, then each synonym
+  phrases: string[][];
+}
+
+export interface VariantMatch {
+  start: number;
+  end: number;
+  text: string; // as written in the text
+  kind: 'exact' | 'variant' | 'synonym';
+}
+
+// Light suffix stripping so plurals and common inflections match: "optimizing", "optimized",
+// "optimization" and "optimize" all become "optimiz". Both keyword and text go through it, so
+// consistency matters more than linguistic accuracy. A final "y" after a consonant becomes "i" so
+// -ie and -y words meet their -ies plurals: "cookie"/"cookies" -> "cooki", "movie"/"movies" ->
+// "movi", "calorie"/"calories" -> "calori", "party"/"parties" -> "parti".
+export function stemWord(word: string): string {
+  let stem = word.toLowerCase().replace(/['’]s$/, '');
+  stem = IRREGULAR_FORMS[stem] ?? stem;
+  if (stem.length <= 3 || UNINFLECTED.has(stem)) return stem;
+
+  // Plurals
+  if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('ies') && stem.length > 4) stem = stem.slice(0, -2);
+  else if (/(?:[sxz]|ch|sh)es$/.test(stem)) stem = stem.slice(0, -2);
+  else if (stem.endsWith('s') && !/(?:ss|us|is)$/.test(stem)) stem = stem.slice(0, -1);
+
+  // Derivations and inflections, longest first; only stripped when a real stem remains
+  const withoutSuffix = (suffix: string, replacement: string = '') => {
+    const base = stem.slice(0, -suffix.length);
+    return stem.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base) ? base + replacement : null;
+  };
+  const derived = withoutSuffix('ization', 'ize') ?? withoutSuffix('isation', 'ize') ??
+    withoutSuffix('ation', 'ate') ?? withoutSuffix('ing') ??
+    (stem.endsWith('eed') ? null : withoutSuffix('ed'));
+
+  if (derived !== null) {
+    stem = derived;
+    // "running" -> "runn" -> "run", but not "fall" or "miss"
+    if (/([^aeiouylsz])\1$/.test(stem)) stem = stem.slice(0, -1);
+  }
+
+  stem = stem.replace(/ise$/, 'ize').replace(/([^aeiouy])y$/, '$1i');
+  return stem.length > 3 && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+}
+
+export function tokenizeWords(text: string): WordToken[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    surface: match[0].toLowerCase(),
+    stem: stemWord(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+export function expandKeyword(keyword: Keyword | string): KeywordVariants {
+  const text = typeof keyword === 'string' ? keyword : keyword.text;
+  const synonyms = typeof keyword === 'string' ? [] : (keyword.synonyms ?? []);
+  const stems = (phrase: string) => tokenizeWords(phrase).map(token => token.stem);
+
+  return {
+    keyword: text,
+    synonyms,
+    phrases: [text, ...synonyms].map(stems).filter(phrase => phrase.length > 0)
+  };
+}
+
+// Non-overlapping matches as token ranges, trying longer phrases first at each position so
+// "search engine optimization" wins over a synonym like "search"
+export function matchVariants(
+  tokens: WordToken[],
+  variants: KeywordVariants
+): Array<{ index: number; length: number; kind: VariantMatch['kind'] }> {
+  const phrases = variants.phrases
+    .map((stems, order) => ({ stems, isSynonym: order > 0 }))
+    .sort((a, b) => b.stems.length - a.stems.length);
+  const exact = tokenizeWords(variants.keyword).map(token => token.surface).join(' ');
+  const matches: Array<{ index: number; length: number; kind: VariantMatch['kind'] }> = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const phrase = phrases.find(({ stems }) =>
+      i + stems.length <= tokens.length && stems.every((stem, j) => tokens[i + j].stem === stem)
+    );
+    if (!phrase) continue;
+
+    const length = phrase.stems.length;
+    const surface = tokens.slice(i, i + length).map(token => token.surface).join(' ');
+    matches.push({
+      index: i,
+      length,
+      kind: phrase.isSynonym ? 'synonym' : surface === exact ? 'exact' : 'variant'
+    });
+    i += length - 1;
+  }
+
+  return matches;
+}
+
+export function findVariantMatches(text: string, variants: KeywordVariants): VariantMatch[] {
+  const tokens = tokenizeWords(text);
+  return matchVariants(tokens, variants).map(({ index, length, kind }) => {
+    const start = tokens[index].start;
+    const end = tokens[index + length - 1].end;
+    return { start, end, text: text.slice(start, end), kind };
+  });
+}
+
+export function countKeywordMentions(text: string, variants: KeywordVariants): number {
+  return matchVariants(tokenizeWords(text), variants).length;
+}
+
+// The distinct forms other than the keyword as written, e.g. ["optimizing", "SEO"]
+export function variantFormsFound(text: string, variants: KeywordVariants): string[] {
+  const forms = new Map<string, string>();
+  findVariantMatches(text, variants)
+    .filter(match => match.kind !== 'exact')
+    .forEach(match => {
+      const form = match.text.replace(/\s+/g, ' ');
+      if (!forms.has(form.toLowerCase())) forms.set(form.toLowerCase(), form);
+    });
+  return Array.from(forms.values());
+}
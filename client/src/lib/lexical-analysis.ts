@@ -0,0 +1,129 @@
+// Keyword density, prominence and placement: the on-page checks SEO reviews ask for alongside
+// semantic coverage. Works on plain text, Markdown (with optional front matter) and HTML.
+import { type LexicalStats } from "@shared/schema";
+import {
+  type KeywordVariants,
+  tokenizeWords,
+  matchVariants,
+  countKeywordMentions,
+  variantFormsFound
+} from "./keyword-variants";
+
+// Above this share of all words (%), a keyword reads as stuffed
+const MAX_KEYWORD_WORD_SHARE = 3;
+// Mentions of one keyword in a single sentence before it is flagged as repetitive
+const MAX_MENTIONS_PER_SENTENCE = 2;
+// Using the keyword in every subheading only gets flagged once there are this many of them
+const MIN_SUBHEADINGS_FOR_WARNING = 3;
+
+export interface PageStructure {
+  title: string | null; // <title> or front matter title
+  metaDescription: string | null; // <meta name="description"> or front matter description
+  h1: string[];
+  h2: string[];
+  firstParagraph: string | null;
+  body: string; // visible text with markup removed
+}
+
+// Scripts, styles and entities are markup, not words of the copy; tags are left in place
+export const removeNonText = (html: string) => html
+  .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+  .replace(/&nbsp;/gi, ' ')
+  .replace(/&amp;/gi, '&');
+
+const stripTags = (html: string) => removeNonText(html)
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export function parsePageStructure(text: string): PageStructure {
+  const isHtml = /<(html|head|body|p|h[1-6]|div|title|meta)\b[^>]*>/i.test(text);
+
+  if (isHtml) {
+    const metaTag = text.match(/<meta\s[^>]*name=["']description["'][^>]*>/i)?.[0];
+    const headings = (level: number) =>
+      Array.from(text.matchAll(new RegExp(`<h${level}[^>]*>([\\s\\S]*?)<\\/h${level}>`, 'gi')), match => stripTags(match[1]));
+    const paragraph = text.match(/<p[^>]*>([\s\S]*?)<\/p>/i);
+    const visible = text.replace(/<head[^>]*>[\s\S]*?<\/head>/i, ' ').replace(/<title[^>]*>[\s\S]*?<\/title>/i, ' ');
+    // Without <p> tags, the first block of text that is not a heading
+    const firstBlock = visible
+      .replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, '\n\n')
+      .split(/\n[ \t]*\n/)
+      .map(stripTags)
+      .find(Boolean);
+
+    return {
+      title: text.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim() || null,
+      metaDescription: metaTag?.match(/content=["']([^"']*)["']/i)?.[1].trim() || null,
+      h1: headings(1),
+      h2: headings(2),
+      firstParagraph: paragraph ? stripTags(paragraph[1]) : firstBlock ?? null,
+      body: stripTags(visible)
+    };
+  }
+
+  // Markdown or plain text, with an optional YAML front matter block
+  const frontMatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  const field = (name: string) =>
+    frontMatter?.[1].match(new RegExp(`^${name}:[ \\t]*["']?(.*?)["']?[ \\t]*$`, 'mi'))?.[1] || null;
+  const content = frontMatter ? text.slice(frontMatter[0].length) : text;
+  const headings = (level: number) =>
+    Array.from(content.matchAll(new RegExp(`^#{${level}}[ \\t]+(.+?)[ \\t#]*$`, 'gm')), match => match[1].trim());
+  const paragraphs = content
+    .split(/\n[ \t]*\n/)
+    .map(block => block.trim())
+    .filter(block => block && !/^#{1,6}[ \t]/.test(block));
+
+  return {
+    title: field('title'),
+    metaDescription: field('description'),
+    h1: headings(1),
+    h2: headings(2),
+    firstParagraph: paragraphs[0] ?? null,
+    body: content.replace(/^#{1,6}[ \t]+/gm, '')
+  };
+}
+
+const containsKeyword = (text: string | null, variants: KeywordVariants) =>
+  text === null ? null : countKeywordMentions(text, variants) > 0;
+
+export function analyzeLexical(text: string, keywords: KeywordVariants[]): LexicalStats[] {
+  const page = parsePageStructure(text);
+  const tokens = tokenizeWords(page.body);
+  const sentences = page.body.split(/[.!?]+\s+|\n+/);
+
+  return keywords.map(variants => {
+    const matches = matchVariants(tokens, variants);
+    const density = tokens.length > 0 ? Math.round((matches.length / tokens.length) * 10000) / 100 : 0;
+    const inSubheadings = page.h2.filter(heading => containsKeyword(heading, variants)).length;
+
+    const warnings: string[] = [];
+    const matchedWords = matches.reduce((sum, match) => sum + match.length, 0);
+    const wordShare = tokens.length > 0 ? (matchedWords / tokens.length) * 100 : 0;
+    if (wordShare > MAX_KEYWORD_WORD_SHARE) {
+      warnings.push(`Makes up ${Math.round(wordShare * 10) / 10}% of all words; above ${MAX_KEYWORD_WORD_SHARE}% reads as keyword stuffing`);
+    }
+    const crowded = sentences.filter(sentence => countKeywordMentions(sentence, variants) > MAX_MENTIONS_PER_SENTENCE).length;
+    if (crowded > 0) {
+      warnings.push(`Repeated more than ${MAX_MENTIONS_PER_SENTENCE} times within ${crowded} sentence${crowded !== 1 ? 's' : ''}`);
+    }
+    if (page.h2.length >= MIN_SUBHEADINGS_FOR_WARNING && inSubheadings === page.h2.length) {
+      warnings.push(`Used in all ${page.h2.length} H2 subheadings`);
+    }
+
+    return {
+      mentions: matches.length,
+      variantsFound: variantFormsFound(page.body, variants),
+      density,
+      firstOccurrence: matches.length > 0 ? Math.round((matches[0].index / tokens.length) * 100) : null,
+      placement: {
+        title: containsKeyword(page.title, variants),
+        h1: page.h1.length > 0 ? page.h1.some(heading => containsKeyword(heading, variants)) : null,
+        h2: page.h2.length > 0 ? inSubheadings > 0 : null,
+        firstParagraph: containsKeyword(page.firstParagraph, variants),
+        metaDescription: containsKeyword(page.metaDescription, variants)
+      },
+      warnings
+    };
+  });
+}
@@ -0,0 +1,94 @@
+// Candidate topic terms from competitor copy: stopword-bounded phrases of one to three words, a
+// cheap stand-in for noun phrases that needs no tagger. Terms are grouped by stem so "pricing
+// plan" and "pricing plans" are one term.
+import { tokenizeWords, type WordToken } from "./keyword-variants";
+import { removeNonText } from "./lexical-analysis";
+
+const MAX_TERM_WORDS = 3;
+const MIN_TERM_LENGTH = 3;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could',
+  'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'even', 'every', 'few', 'for', 'from', 'further',
+  'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'like', 'make', 'makes', 'many',
+  'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'new', 'no', 'nor', 'not', 'now', 'of',
+  'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'really',
+  'same', 'see', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+  'us', 'use', 'used', 'using', 'very', 'want', 'was', 'way', 'we', 'well', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'within', 'without', 'would', 'you',
+  'your', 'yours', 'yourself', "it's", "don't", "you're", "we're", "can't", 'etc', 'via', 'per'
+]);
+
+export interface CandidateTerm {
+  term: string; // most frequent surface form
+  key: string; // stems joined by spaces
+  documents: number; // how many of the given documents use it
+  mentions: number; // total mentions across them
+}
+
+// Stem key -> surface forms with counts, for one document
+function termsInDocument(html: string): Map<string, Map<string, number>> {
+  // Tags become line breaks so they neither produce terms nor join words across elements
+  const text = removeNonText(html).replace(/<[^>]*>/g, '\n');
+  const tokens = tokenizeWords(text);
+  const terms = new Map<string, Map<string, number>>();
+  // Markup and tokens like "2024" never make useful terms and split phrases
+  const isContent = (token: WordToken) =>
+    !STOPWORDS.has(token.surface) && token.surface.length >= 2 && !/^\d+$/.test(token.surface);
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isContent(tokens[i])) continue;
+
+    for (let length = 1; length <= MAX_TERM_WORDS && i + length <= tokens.length; length++) {
+      const words = tokens.slice(i, i + length);
+      const last = words[words.length - 1];
+      if (!isContent(last)) break;
+      // Phrases never span sentence or clause punctuation
+      if (length > 1 && /[.,;:!?()\n]/.test(text.slice(words[length - 2].end, last.start))) break;
+
+      const surface = words.map(word => word.surface).join(' ');
+      if (surface.length < MIN_TERM_LENGTH) continue;
+
+      const key = words.map(word => word.stem).join(' ');
+      const forms = terms.get(key) ?? new Map<string, number>();
+      forms.set(surface, (forms.get(surface) ?? 0) + 1);
+      terms.set(key, forms);
+    }
+  }
+  return terms;
+}
+
+// Terms used by at least minDocuments of the documents, most widespread first
+export function extractCandidateTerms(documents: string[], minDocuments: number): CandidateTerm[] {
+  const totals = new Map<string, { forms: Map<string, number>; documents: number; mentions: number }>();
+
+  documents.forEach(text => {
+    termsInDocument(text).forEach((forms, key) => {
+      const total = totals.get(key) ?? { forms: new Map<string, number>(), documents: 0, mentions: 0 };
+      total.documents++;
+      forms.forEach((count, form) => {
+        total.forms.set(form, (total.forms.get(form) ?? 0) + count);
+        total.mentions += count;
+      });
+      totals.set(key, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .filter(([, total]) => total.documents >= minDocuments)
+    .map(([key, total]) => ({
+      term: Array.from(total.forms.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      key,
+      documents: total.documents,
+      mentions: total.mentions
+    }))
+    .sort((a, b) => b.documents - a.documents || b.mentions - a.mentions);
+}
+
+// Stem keys of every phrase a text uses, to check which candidate terms it already covers
+export function termKeysIn(text: string): Set<string> {
+  return new Set(termsInDocument(text).keys());
+}
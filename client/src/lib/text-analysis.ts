@@ -1,11 +1,16 @@
 // Utility functions for text analysis and diff calculation
-import { type SectionImprovement } from "@shared/schema";
+import { type SectionImprovement, type ChunkingStrategy, type SourceSpan } from "@shared/schema";
+import { estimateTokenCount } from "./openai";
+import { myersDiff, type EditOp } from "./diff";
+
+// Sections longer than this are split into overlapping windows (~450 words of English)
+const MAX_SECTION_TOKENS = 600;
+const SECTION_OVERLAP_TOKENS = 100;
 
 export interface TextSection {
   title: string;
   content: string;
-  startIndex: number;
-  endIndex: number;
+  span: SourceSpan; // where content sits in the analyzed text
   level: number; // 1 for H1, 2 for H2, etc.
   type: 'heading' | 'paragraph' | 'chunk';
 }
@@ -19,309 +24,456 @@ export interface DiffSegment {
   };
   keywordAdded?: string; // Which keyword was added
   reason?: string; // Why this change was made
+  moveId?: number; // Shared by the removed and added halves of a moved sentence
 }
 
-export function detectSections(text: string): TextSection[] {
-  // Strategy 1: Try HTML/Markdown headings first
-  const htmlSections = detectHtmlSections(text);
-  if (htmlSections.length > 1) {
-    return htmlSections;
+export type SpanResolver = (start: number, end: number) => SourceSpan;
+
+// Builds SourceSpans for one text; line starts are indexed once so each lookup is a binary search
+export function createSpanResolver(text: string): SpanResolver {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
   }
-  
-  const markdownSections = detectMarkdownSections(text);
-  if (markdownSections.length > 1) {
-    return markdownSections;
+
+  const position = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return (start, end) => {
+    const from = position(start);
+    const to = position(end);
+    return { start, end, startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column };
+  };
+}
+
+export function formatSpanLines(span: SourceSpan): string {
+  return span.startLine === span.endLine ? `Line ${span.startLine}` : `Lines ${span.startLine}–${span.endLine}`;
+}
+
+// Every occurrence of a keyword (case-insensitive), e.g. for highlighting evidence
+export function findKeywordSpans(text: string, keyword: string, wholeWord: boolean = true): SourceSpan[] {
+  const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(wholeWord ? `\\b${escapedKeyword}\\b` : escapedKeyword, 'gi');
+  const resolve = createSpanResolver(text);
+  return Array.from(text.matchAll(regex), match => resolve(match.index!, match.index! + match[0].length));
+}
+
+export function detectSections(text: string, strategy: ChunkingStrategy = 'auto'): TextSection[] {
+  const resolve = createSpanResolver(text);
+
+  switch (strategy) {
+    case 'headings':
+      return orFullContent(text, resolve, detectHeadingSections(text, resolve));
+    case 'paragraphs':
+      return orFullContent(text, resolve, detectParagraphSections(text, resolve));
+    case 'sliding-window':
+      // The single section is cut into windows by splitLongSections
+      return orFullContent(text, resolve, []);
+  }
+
+  // Strategy 1: Try HTML/Markdown headings first
+  const headingSections = detectHeadingSections(text, resolve);
+  if (headingSections.length > 1) {
+    return headingSections;
   }
   
   // Strategy 2: Try paragraph-based splitting
-  const paragraphSections = detectParagraphSections(text);
+  const paragraphSections = detectParagraphSections(text, resolve);
   if (paragraphSections.length > 1) {
     return paragraphSections;
   }
   
   // Strategy 3: Fallback to single section
-  return [{
-    title: "Full Content",
-    content: text,
-    startIndex: 0,
-    endIndex: text.split(/\s+/).length - 1,
-    level: 1,
-    type: 'chunk'
-  }];
+  return orFullContent(text, resolve, []);
 }
 
-function detectHtmlSections(text: string): TextSection[] {
-  const sections: TextSection[] = [];
-  const headingRegex = /<h([1-6])[^>]*>(.*?)<\/h\1>/gi;
-  const matches = Array.from(text.matchAll(headingRegex));
-  
-  if (matches.length === 0) return [];
-  
-  let currentIndex = 0;
-  
-  matches.forEach((match, index) => {
-    const level = parseInt(match[1]);
-    const title = match[2].replace(/<[^>]*>/g, '').trim();
-    const matchStart = match.index!;
-    
-    // Content is from current position to start of next heading
-    const nextMatch = matches[index + 1];
-    const contentEnd = nextMatch ? nextMatch.index! : text.length;
-    const content = text.substring(currentIndex, contentEnd).trim();
-    
-    if (content.length > 0) {
-      sections.push({
-        title: title || `Section ${index + 1}`,
-        content,
-        startIndex: currentIndex,
-        endIndex: contentEnd,
-        level,
-        type: 'heading'
-      });
+// Cut sections longer than maxTokens into overlapping windows that break on word boundaries,
+// so every chunk fits comfortably in one embedding input
+export function splitLongSections(
+  text: string,
+  sections: TextSection[],
+  maxTokens: number = MAX_SECTION_TOKENS,
+  overlapTokens: number = SECTION_OVERLAP_TOKENS
+): TextSection[] {
+  const resolve = createSpanResolver(text);
+
+  return sections.flatMap(section => {
+    if (estimateTokenCount(section.content) <= maxTokens) {
+      return [section];
     }
-    
-    currentIndex = contentEnd;
+
+    const windows = slidingWindows(section.content, maxTokens, overlapTokens);
+    return windows.map(({ start, end }, index) => ({
+      // Untitled text is numbered like the old fixed windows; headings keep their title
+      title: section.type === 'chunk' ? `Section ${index + 1}` : `${section.title} (part ${index + 1})`,
+      content: section.content.slice(start, end),
+      span: resolve(section.span.start + start, section.span.start + end),
+      level: section.level,
+      type: 'chunk' as const
+    }));
   });
-  
-  return sections;
 }
 
-function detectMarkdownSections(text: string): TextSection[] {
-  const sections: TextSection[] = [];
-  const lines = text.split('\n');
-  const headingRegex = /^(#{1,6})\s+(.+)$/;
-  
-  let currentSection: TextSection | null = null;
-  let currentContent: string[] = [];
-  let lineIndex = 0;
-  
-  for (const line of lines) {
-    const match = line.match(headingRegex);
-    
-    if (match) {
-      // Save previous section if exists
-      if (currentSection) {
-        currentSection.content = currentContent.join('\n').trim();
-        if (currentSection.content.length > 0) {
-          sections.push(currentSection);
-        }
-      }
-      
-      // Start new section
-      const level = match[1].length;
-      const title = match[2].trim();
-      
-      currentSection = {
-        title,
-        content: '',
-        startIndex: lineIndex,
-        endIndex: lineIndex,
-        level,
-        type: 'heading'
-      };
-      currentContent = [];
-    } else {
-      currentContent.push(line);
+function slidingWindows(text: string, maxTokens: number, overlapTokens: number): Array<{ start: number, end: number }> {
+  const words = Array.from(text.matchAll(/\S+/g)).map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+  const windows: Array<{ start: number, end: number }> = [];
+
+  let first = 0;
+  while (first < words.length) {
+    const start = words[first].start;
+
+    // Grow the window until the next word would exceed the token budget
+    let last = first;
+    while (last + 1 < words.length && estimateTokenCount(text.slice(start, words[last + 1].end)) <= maxTokens) {
+      last++;
     }
-    
-    lineIndex++;
-  }
-  
-  // Add final section
-  if (currentSection) {
-    currentSection.content = currentContent.join('\n').trim();
-    if (currentSection.content.length > 0) {
-      sections.push(currentSection);
+    const end = words[last].end;
+    windows.push({ start, end });
+
+    if (last + 1 >= words.length) break;
+
+    // Step back so consecutive windows share about overlapTokens of context
+    let next = last + 1;
+    while (next - 1 > first && estimateTokenCount(text.slice(words[next - 1].start, end)) <= overlapTokens) {
+      next--;
     }
+    first = next;
   }
-  
+
+  return windows;
+}
+
+// The span covers the trimmed content, not the surrounding whitespace
+function createSection(
+  text: string,
+  resolve: SpanResolver,
+  start: number,
+  end: number,
+  title: string,
+  level: number,
+  type: TextSection['type']
+): TextSection | null {
+  const raw = text.slice(start, end);
+  const content = raw.trim();
+  if (content.length === 0) return null;
+
+  const offset = start + (raw.length - raw.trimStart().length);
+  return { title, content, span: resolve(offset, offset + content.length), level, type };
+}
+
+function orFullContent(text: string, resolve: SpanResolver, sections: TextSection[]): TextSection[] {
+  if (sections.length > 0) return sections;
+  const full = createSection(text, resolve, 0, text.length, "Full Content", 1, 'chunk');
+  return full ? [full] : [];
+}
+
+function detectHeadingSections(text: string, resolve: SpanResolver): TextSection[] {
+  const htmlSections = detectHtmlSections(text, resolve);
+  return htmlSections.length > 0 ? htmlSections : detectMarkdownSections(text, resolve);
+}
+
+interface HeadingMatch {
+  start: number; // offset of the heading markup
+  end: number;
+  level: number;
+  title: string;
+}
+
+// Each section runs from its heading to the next one, so the heading text is embedded with its body.
+// Copy before the first heading becomes an "Introduction" section.
+function sectionsFromHeadings(text: string, resolve: SpanResolver, headings: HeadingMatch[]): TextSection[] {
+  if (headings.length === 0) return [];
+
+  const sections: TextSection[] = [];
+  const intro = createSection(text, resolve, 0, headings[0].start, "Introduction", 1, 'paragraph');
+  if (intro) sections.push(intro);
+
+  headings.forEach((heading, index) => {
+    const contentEnd = index + 1 < headings.length ? headings[index + 1].start : text.length;
+
+    // Skip headings with no body of their own (e.g. an H1 directly followed by an H2)
+    if (text.slice(heading.end, contentEnd).trim().length === 0) return;
+
+    const section = createSection(text, resolve, heading.start, contentEnd, heading.title || `Section ${index + 1}`, heading.level, 'heading');
+    if (section) sections.push(section);
+  });
+
   return sections;
 }
 
-function detectParagraphSections(text: string): TextSection[] {
-  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-  
-  if (paragraphs.length < 2) return [];
-  
-  return paragraphs.map((paragraph, index) => ({
-    title: `Paragraph ${index + 1}`,
-    content: paragraph.trim(),
-    startIndex: index * 100, // Approximate
-    endIndex: (index + 1) * 100,
-    level: 1,
-    type: 'paragraph'
+function detectHtmlSections(text: string, resolve: SpanResolver): TextSection[] {
+  const headings = Array.from(text.matchAll(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi)).map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    level: parseInt(match[1]),
+    title: match[2].replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
   }));
+
+  return sectionsFromHeadings(text, resolve, headings);
 }
 
+function detectMarkdownSections(text: string, resolve: SpanResolver): TextSection[] {
+  const headings = Array.from(text.matchAll(/^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm)).map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    level: match[1].length,
+    title: match[2].trim()
+  }));
+
+  return sectionsFromHeadings(text, resolve, headings);
+}
+
+function detectParagraphSections(text: string, resolve: SpanResolver): TextSection[] {
+  const sections: TextSection[] = [];
+  let start = 0;
+
+  for (const separator of Array.from(text.matchAll(/\n[ \t]*\n\s*/g))) {
+    const section = createSection(text, resolve, start, separator.index!, `Paragraph ${sections.length + 1}`, 1, 'paragraph');
+    if (section) sections.push(section);
+    start = separator.index! + separator[0].length;
+  }
+
+  const last = createSection(text, resolve, start, text.length, `Paragraph ${sections.length + 1}`, 1, 'paragraph');
+  if (last) sections.push(last);
+
+  return sections.length > 1 ? sections : [];
+}
+
+// Sentence runs that change are diffed again word by word, unless the rewrite shares less than this
+// share of its words with the original, in which case showing it as one replacement reads better
+const MIN_WORD_DIFF_SIMILARITY = 0.5;
+// Word diffs needing more edits than this are shown as a single replacement
+const MAX_WORD_DIFF_EDITS = 2000;
+// Shorter sentences ("Learn more.") repeat too often to be reported as moved
+const MIN_MOVED_SENTENCE_LENGTH = 20;
+
+type DiffPiece = Pick<DiffSegment, 'type' | 'text' | 'moveId'>;
+
+// Sentences keep their trailing whitespace and line breaks, so the pieces concatenate back exactly
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of Array.from(text.matchAll(/[.!?]+["')\]]*\s+|\n\s*/g))) {
+    const end = match.index! + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) sentences.push(text.slice(start));
+  return sentences;
+}
+
+// Unchanged and removed text comes from the original and unchanged and added text from the
+// enhanced copy, both with their exact whitespace: rejecting every change gives back the original
+// and accepting every change gives the enhanced text (see applyDiffDecisions)
 export function calculateContextualDiff(
   original: string, 
   enhanced: string, 
   improvements: SectionImprovement[]
 ): DiffSegment[] {
+  const resolve = createSpanResolver(original);
+  const movedFrom = new Map<number, number>(); // moveId -> offset of the removed half
   const segments: DiffSegment[] = [];
-  
-  // Simple approach: find insertions and mark them with context
-  const originalWords = original.split(/\s+/);
-  const enhancedWords = enhanced.split(/\s+/);
-  
-  let i = 0, j = 0;
-  
-  while (i < originalWords.length || j < enhancedWords.length) {
-    // Find matching sequences
-    if (i < originalWords.length && j < enhancedWords.length && 
-        originalWords[i] === enhancedWords[j]) {
-      
-      // Collect unchanged words
-      const unchangedStart = i;
-      while (i < originalWords.length && j < enhancedWords.length && 
-             originalWords[i] === enhancedWords[j]) {
-        i++;
-        j++;
-      }
-      
-      segments.push({
-        type: 'unchanged',
-        text: originalWords.slice(unchangedStart, i).join(' ')
-      });
-      
-    } else if (j < enhancedWords.length) {
-      // Find added content
-      const addedStart = j;
-      const contextBefore = originalWords.slice(Math.max(0, i - 5), i).join(' ');
-      const contextAfter = originalWords.slice(i, Math.min(originalWords.length, i + 5)).join(' ');
-      
-      // Look for keyword additions
-      const addedText = enhancedWords.slice(j, j + 10).join(' ');
-      const matchingKeyword = improvements.find(imp => 
-        imp.missingKeywords.some(kw => 
-          addedText.toLowerCase().includes(kw.toLowerCase())
-        )
-      );
-      
-      // Skip to next matching point
-      let nextMatchJ = j + 1;
-      while (nextMatchJ < enhancedWords.length && 
-             !originalWords.slice(i).includes(enhancedWords[nextMatchJ])) {
-        nextMatchJ++;
-      }
-      
-      segments.push({
-        type: 'added',
-        text: enhancedWords.slice(j, nextMatchJ).join(' '),
-        context: {
-          before: contextBefore,
-          after: contextAfter
-        },
-        keywordAdded: matchingKeyword?.missingKeywords[0],
-        reason: matchingKeyword ? 
-          `Added "${matchingKeyword.missingKeywords[0]}" to improve section score` : 
-          'Content enhancement'
-      });
-      
-      j = nextMatchJ;
-    } else {
-      // Handle removed content (shouldn't happen in enhancement)
-      segments.push({
-        type: 'removed',
-        text: originalWords.slice(i).join(' ')
-      });
-      break;
+  let offset = 0; // position in the original
+
+  for (const piece of diffSentences(original, enhanced)) {
+    if (piece.type !== 'added') {
+      if (piece.moveId !== undefined) movedFrom.set(piece.moveId, offset);
+      segments.push(piece);
+      offset += piece.text.length;
+      continue;
+    }
+
+    const context = {
+      before: (original.slice(Math.max(0, offset - 200), offset).match(/\S+/g) || []).slice(-5).join(' '),
+      after: (original.slice(offset, offset + 200).match(/\S+/g) || []).slice(0, 5).join(' ')
+    };
+
+    if (piece.moveId !== undefined) {
+      segments.push({ ...piece, context, reason: 'Moved from elsewhere in the text' });
+      continue;
     }
+
+    // Look for keyword additions, preferring the section the insertion point falls in
+    const addsKeyword = (imp: SectionImprovement) => imp.missingKeywords.some(kw =>
+      piece.text.toLowerCase().includes(kw.toLowerCase())
+    );
+    const matchingKeyword = improvements.find(imp =>
+        imp.span.start <= offset && offset <= imp.span.end && addsKeyword(imp)
+      ) || improvements.find(addsKeyword);
+
+    segments.push({
+      ...piece,
+      context,
+      keywordAdded: matchingKeyword?.missingKeywords[0],
+      reason: matchingKeyword ? 
+        `Added "${matchingKeyword.missingKeywords[0]}" to improve "${matchingKeyword.section}" (${formatSpanLines(matchingKeyword.span)})` : 
+        'Content enhancement'
+    });
   }
-  
-  return segments;
+
+  // The removed half of a move can come after the added half, so reasons are filled in last
+  return segments.map(segment => {
+    const from = segment.type === 'added' && segment.moveId !== undefined ? movedFrom.get(segment.moveId) : undefined;
+    return from === undefined ? segment : { ...segment, reason: `Moved from line ${resolve(from, from).startLine}` };
+  });
 }
 
-// Keep the original diff function for backward compatibility
-export function calculateDiff(original: string, enhanced: string): DiffSegment[] {
-  // Simple word-based diff algorithm
-  const originalWords = original.split(/\s+/);
-  const enhancedWords = enhanced.split(/\s+/);
-  const segments: DiffSegment[] = [];
-  
-  let i = 0, j = 0;
-  
-  while (i < originalWords.length || j < enhancedWords.length) {
-    if (i >= originalWords.length) {
-      // Rest of enhanced text is additions
-      segments.push({
-        type: 'added',
-        text: enhancedWords.slice(j).join(' ')
-      });
-      break;
+// Sentence-level Myers diff; changed runs are refined word by word and sentences that were only
+// relocated are paired up as moves
+function diffSentences(original: string, enhanced: string): DiffPiece[] {
+  const a = splitSentences(original);
+  const b = splitSentences(enhanced);
+  const ops = myersDiff(a, b)!;
+
+  // Walk the script into per-sentence items, counting unchanged sentences seen so far: a sentence
+  // removed and re-added with no unchanged sentence in between has not really moved
+  const items: Array<{ op: EditOp; text: string; anchor: number; moveId?: number }> = [];
+  let i = 0, j = 0, anchor = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      items.push({ op, text: b[j], anchor });
+      i++; j++; anchor++;
+    } else if (op === 'delete') {
+      items.push({ op, text: a[i++], anchor });
+    } else {
+      items.push({ op, text: b[j++], anchor });
+    }
+  }
+
+  const inserted = new Map<string, typeof items>();
+  items.forEach(item => {
+    const key = item.text.trim();
+    if (item.op === 'insert' && key.length >= MIN_MOVED_SENTENCE_LENGTH) {
+      inserted.set(key, [...(inserted.get(key) || []), item]);
     }
-    
-    if (j >= enhancedWords.length) {
-      // Rest of original text was removed
-      segments.push({
-        type: 'removed',
-        text: originalWords.slice(i).join(' ')
-      });
-      break;
+  });
+  let nextMoveId = 0;
+  items.forEach(item => {
+    if (item.op !== 'delete') return;
+    const candidates = inserted.get(item.text.trim()) || [];
+    const partner = candidates.find(candidate => candidate.moveId === undefined && candidate.anchor !== item.anchor);
+    if (partner) {
+      item.moveId = partner.moveId = nextMoveId++;
     }
-    
-    if (originalWords[i] === enhancedWords[j]) {
-      // Words match
-      const unchangedText = [];
-      while (i < originalWords.length && j < enhancedWords.length && 
-             originalWords[i] === enhancedWords[j]) {
-        unchangedText.push(originalWords[i]);
-        i++;
-        j++;
-      }
-      segments.push({
-        type: 'unchanged',
-        text: unchangedText.join(' ')
-      });
+  });
+
+  const pieces: DiffPiece[] = [];
+  let removed = '';
+  let added = '';
+  const flush = () => {
+    pieces.push(...diffWords(removed, added));
+    removed = added = '';
+  };
+
+  for (const item of items) {
+    if (item.op === 'equal') {
+      flush();
+      pieces.push({ type: 'unchanged', text: item.text });
+    } else if (item.moveId !== undefined) {
+      flush();
+      pieces.push({ type: item.op === 'delete' ? 'removed' : 'added', text: item.text, moveId: item.moveId });
+    } else if (item.op === 'delete') {
+      removed += item.text;
     } else {
-      // Look ahead to find next matching section
-      let nextMatch = findNextMatch(originalWords, enhancedWords, i, j);
-      
-      if (nextMatch.found) {
-        if (nextMatch.originalIndex > i) {
-          segments.push({
-            type: 'removed',
-            text: originalWords.slice(i, nextMatch.originalIndex).join(' ')
-          });
-        }
-        if (nextMatch.enhancedIndex > j) {
-          segments.push({
-            type: 'added',
-            text: enhancedWords.slice(j, nextMatch.enhancedIndex).join(' ')
-          });
-        }
-        i = nextMatch.originalIndex;
-        j = nextMatch.enhancedIndex;
-      } else {
-        // No more matches, treat rest as remove/add
-        segments.push({
-          type: 'removed',
-          text: originalWords.slice(i).join(' ')
-        });
-        segments.push({
-          type: 'added',
-          text: enhancedWords.slice(j).join(' ')
-        });
-        break;
-      }
+      added += item.text;
     }
   }
-  
-  return segments;
+  flush();
+
+  return mergePieces(pieces);
+}
+
+// Word-level diff of one changed run, on words and whitespace so both are kept exactly
+function diffWords(removed: string, added: string): DiffPiece[] {
+  if (!removed && !added) return [];
+  const replacement: DiffPiece[] = [
+    ...(removed ? [{ type: 'removed' as const, text: removed }] : []),
+    ...(added ? [{ type: 'added' as const, text: added }] : [])
+  ];
+  if (!removed || !added) return replacement;
+
+  const a = removed.match(/\s+|\S+/g)!;
+  const b = added.match(/\s+|\S+/g)!;
+  const ops = myersDiff(a, b, MAX_WORD_DIFF_EDITS);
+  if (!ops) return replacement;
+
+  const tokens: DiffPiece[] = [];
+  let i = 0, j = 0, sharedWords = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      if (/\S/.test(a[i])) sharedWords++;
+      tokens.push({ type: 'unchanged', text: a[i] });
+      i++; j++;
+    } else if (op === 'delete') {
+      tokens.push({ type: 'removed', text: a[i++] });
+    } else {
+      tokens.push({ type: 'added', text: b[j++] });
+    }
+  }
+
+  const wordCount = Math.max(a.filter(t => /\S/.test(t)).length, b.filter(t => /\S/.test(t)).length);
+  if (sharedWords / wordCount < MIN_WORD_DIFF_SIMILARITY) return replacement;
+
+  // Whitespace alone between two changes joins them, so "a b c" -> "x y z" is one change rather
+  // than three; removals are listed before additions within each change
+  const pieces: DiffPiece[] = [];
+  let pendingRemoved = '';
+  let pendingAdded = '';
+  tokens.forEach((token, index) => {
+    if (token.type === 'removed') {
+      pendingRemoved += token.text;
+    } else if (token.type === 'added') {
+      pendingAdded += token.text;
+    } else if ((pendingRemoved || pendingAdded) && !/\S/.test(token.text) && tokens[index + 1]?.type !== 'unchanged' && index + 1 < tokens.length) {
+      pendingRemoved += token.text;
+      pendingAdded += token.text;
+    } else {
+      if (pendingRemoved) pieces.push({ type: 'removed', text: pendingRemoved });
+      if (pendingAdded) pieces.push({ type: 'added', text: pendingAdded });
+      pendingRemoved = pendingAdded = '';
+      pieces.push(token);
+    }
+  });
+  if (pendingRemoved) pieces.push({ type: 'removed', text: pendingRemoved });
+  if (pendingAdded) pieces.push({ type: 'added', text: pendingAdded });
+
+  return pieces;
 }
 
-function findNextMatch(
-  original: string[], 
-  enhanced: string[], 
-  startI: number, 
-  startJ: number
-): { found: boolean; originalIndex: number; enhancedIndex: number } {
-  for (let i = startI; i < original.length; i++) {
-    for (let j = startJ; j < enhanced.length; j++) {
-      if (original[i] === enhanced[j]) {
-        return { found: true, originalIndex: i, enhancedIndex: j };
-      }
+// Joins neighbouring pieces of the same kind; moves stay separate so both halves can be paired
+function mergePieces(pieces: DiffPiece[]): DiffPiece[] {
+  const merged: DiffPiece[] = [];
+  for (const piece of pieces) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === piece.type && last.moveId === undefined && piece.moveId === undefined) {
+      merged[merged.length - 1] = { ...last, text: last.text + piece.text };
+    } else {
+      merged.push(piece);
     }
   }
-  return { found: false, originalIndex: -1, enhancedIndex: -1 };
-} 
\ No newline at end of file
+  return merged;
+}
+
+// Rebuilds text from a diff with per-segment decisions: an added segment is kept unless rejected,
+// a removed segment is only kept (i.e. the removal undone) when rejected
+export function applyDiffDecisions(segments: DiffSegment[], rejected: Set<number>): string {
+  return segments
+    .filter((segment, index) =>
+      segment.type === 'unchanged' ||
+      (segment.type === 'added' && !rejected.has(index)) ||
+      (segment.type === 'removed' && rejected.has(index))
+    )
+    .map(segment => segment.text)
+    .join('');
+}
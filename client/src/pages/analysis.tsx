@@ -1,44 +1,81 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { AnalysisForm } from "@/components/analysis-form";
 import { ResultsDisplay } from "@/components/results-display";
 import { TermsOfService } from "@/components/terms-of-service";
 import { PrivacyPolicy } from "@/components/privacy-policy";
-import { type AnalysisResult } from "@shared/schema";
-import { Search, Shield, RotateCcw, Sparkles, Brain } from "lucide-react";
+import { HistoryDrawer } from "@/components/history-drawer";
+import { analysisHistory } from "@/services/analysis-history";
+import { type AnalysisResult, type AnalysisRequest, type AnalysisRun } from "@shared/schema";
+import { Search, Shield, RotateCcw, Sparkles, Brain, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
 
 export default function AnalysisPage() {
   const [results, setResults] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [originalText, setOriginalText] = useState("");
-  const [competitorText, setCompetitorText] = useState("");
-  const [apiKey, setApiKey] = useState("");
+  const [request, setRequest] = useState<AnalysisRequest | null>(null);
   const [showTerms, setShowTerms] = useState(false);
   const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeRun, setActiveRun] = useState<AnalysisRun | null>(null);
+  // Bumped whenever other results are shown, so ResultsDisplay starts fresh for them; the run's id
+  // would arrive later, after the history save, and remount it under the user's hands
+  const [resultsKey, setResultsKey] = useState(0);
+  // The results on screen, so a history save that finishes after another run was opened or the
+  // page was reset does not mark its run as the one being viewed
+  const shownResults = useRef<AnalysisResult | null>(null);
+  const { toast } = useToast();
 
-  const handleAnalysisComplete = (analysisResults: AnalysisResult, originalMainCopy: string, userApiKey: string, competitorCopy?: string) => {
+  const handleAnalysisComplete = (analysisResults: AnalysisResult, analysisRequest: AnalysisRequest) => {
+    shownResults.current = analysisResults;
     setResults(analysisResults);
+    setResultsKey(key => key + 1);
     setIsAnalyzing(false);
-    setOriginalText(originalMainCopy);
-    setApiKey(userApiKey);
-    if (competitorCopy) setCompetitorText(competitorCopy);
-    
-    // Also retrieve stored data as backup
-    const storedText = sessionStorage.getItem('originalMainCopy');
-    const storedCompetitorText = sessionStorage.getItem('competitorCopy');
-    const storedApiKey = sessionStorage.getItem('apiKey');
-    if (storedText) setOriginalText(storedText);
-    if (storedCompetitorText) setCompetitorText(storedCompetitorText);
-    if (storedApiKey) setApiKey(storedApiKey);
+    setRequest(analysisRequest);
+    setActiveRun(null);
+
+    // Saving is best-effort; the results are already on screen
+    analysisHistory.save(analysisRequest, analysisResults)
+      .then(run => {
+        if (shownResults.current === analysisResults) setActiveRun(run);
+      })
+      .catch(() => {
+        toast({
+          title: "Not saved to history",
+          description: "This browser does not allow local storage for this site",
+          variant: "destructive",
+        });
+      });
+  };
+
+  const handleOpenRun = (run: AnalysisRun) => {
+    shownResults.current = run.result;
+    setResults(run.result);
+    setResultsKey(key => key + 1);
+    // Saved runs never include the API key. The one from this session is kept only for a run made
+    // with the same provider; otherwise the user is asked for a key before enhancing.
+    setRequest(current => ({
+      apiKey: current?.embedding.provider === run.embedding.provider ? current.apiKey : "",
+      keywords: run.keywords,
+      mainCopy: run.mainCopy,
+      competitors: run.competitors,
+      analysisMode: run.analysisMode,
+      chunkingStrategy: run.chunkingStrategy,
+      scoringStrategy: run.scoringStrategy ?? 'centroid',
+      calibrateScores: run.calibrateScores ?? false,
+      pageName: run.pageName,
+      embedding: run.embedding
+    }));
+    setActiveRun(run);
   };
 
   const handleReset = () => {
+    shownResults.current = null;
     setResults(null);
     setIsAnalyzing(false);
-    setOriginalText("");
-    setCompetitorText("");
-    setApiKey("");
+    setRequest(null);
+    setActiveRun(null);
     // Reset form would be handled by the form component
   };
 
@@ -64,6 +101,14 @@ export default function AnalysisPage() {
               <Badge variant="secondary" className="text-xs">
                 Powered by OpenAI
               </Badge>
+              <Button
+                variant="outline"
+                onClick={() => setShowHistory(true)}
+                size="sm"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
               {results && (
                 <Button
                   variant="outline"
@@ -86,12 +131,18 @@ export default function AnalysisPage() {
           setIsAnalyzing={setIsAnalyzing}
         />
         
-        {results && (
+        {results && activeRun && (
+          <p className="mt-8 text-sm text-muted-foreground">
+            Showing run for <span className="font-medium text-gray-900">{activeRun.pageName}</span> from{' '}
+            {new Date(activeRun.createdAt).toLocaleString()}
+          </p>
+        )}
+
+        {results && request && (
           <ResultsDisplay 
+            key={resultsKey}
             results={results} 
-            originalText={originalText}
-            competitorText={competitorText}
-            apiKey={apiKey}
+            request={request}
           />
         )}
       </main>
@@ -165,6 +216,12 @@ export default function AnalysisPage() {
         </div>
       )}
 
+      <HistoryDrawer
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        onOpenRun={handleOpenRun}
+        activeRunId={activeRun?.id}
+      />
       <TermsOfService open={showTerms} onClose={() => setShowTerms(false)} />
       <PrivacyPolicy open={showPrivacy} onClose={() => setShowPrivacy(false)} />
     </div>
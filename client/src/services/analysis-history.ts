@@ -0,0 +1,109 @@
+import { type AnalysisRequest, type AnalysisResult, type AnalysisRun } from '@shared/schema';
+import { openDatabase, request, transactionDone } from '@/lib/indexed-db';
+
+const DB_NAME = 'semantic-analyzer-history';
+const DB_VERSION = 1;
+const STORE = 'runs';
+
+// Saved analyses, so a page can be re-checked over days and compared against earlier runs.
+// Unlike the embedding cache this stores the copy itself, so it lives in its own database
+// and can be cleared independently.
+export class AnalysisHistory {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private maxRuns: number = 100) {}
+
+  async save(input: AnalysisRequest, result: AnalysisResult): Promise<AnalysisRun> {
+    const run: AnalysisRun = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      pageName: input.pageName?.trim() || derivePageName(input.mainCopy),
+      keywords: input.keywords,
+      mainCopy: input.mainCopy,
+      competitors: input.competitors,
+      analysisMode: input.analysisMode,
+      chunkingStrategy: input.chunkingStrategy,
+      scoringStrategy: input.scoringStrategy,
+      calibrateScores: input.calibrateScores,
+      embedding: input.embedding,
+      result
+    };
+
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(run);
+    await transactionDone(tx);
+    await this.prune();
+
+    return run;
+  }
+
+  // Newest first
+  async list(): Promise<AnalysisRun[]> {
+    const db = await this.open();
+    const runs = await request<AnalysisRun[]>(
+      db.transaction(STORE).objectStore(STORE).index('createdAt').getAll()
+    );
+    return runs.reverse();
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  private async prune(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let excess = (await request(store.count())) - this.maxRuns;
+
+    if (excess > 0) {
+      // Drop the oldest runs first
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+
+    await transactionDone(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Used when no page name was entered: the first line of the copy without markup, usually its H1
+export function derivePageName(mainCopy: string): string {
+  const firstLine = mainCopy
+    .split('\n')
+    .map(line => line.replace(/<[^>]*>/g, '').replace(/^#+\s*/, '').trim())
+    .find(line => line.length > 0) || 'Untitled page';
+
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+// Export singleton instance
+export const analysisHistory = new AnalysisHistory();
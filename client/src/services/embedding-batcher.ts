@@ -0,0 +1,142 @@
+import { estimateTokenCount } from '@/lib/openai';
+import { type EmbeddingProvider, type EmbeddingInputType } from './embedding-providers';
+
+export interface EmbeddingBatcherOptions {
+  maxConcurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504]);
+
+// Packs many texts into multi-input embedding calls so an analysis makes a handful of
+// requests instead of one per keyword/chunk, and owns retry-with-backoff for rate limits.
+export class EmbeddingBatcher {
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private provider: EmbeddingProvider, options: EmbeddingBatcherOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency ?? 3;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    // Identical inputs (repeated keywords, duplicated sections) are only sent once
+    const unique = Array.from(new Set(texts));
+    const batches = this.packBatches(unique);
+
+    const results = await Promise.all(
+      batches.map(batch => this.withConcurrencyLimit(() => this.embedWithRetry(batch, inputType)))
+    );
+
+    const vectors = new Map<string, number[]>();
+    batches.forEach((batch, batchIndex) => {
+      batch.forEach((text, i) => vectors.set(text, results[batchIndex][i]));
+    });
+
+    return texts.map(text => vectors.get(text)!);
+  }
+
+  private packBatches(texts: string[]): string[][] {
+    const { maxInputs, maxTokens } = this.provider.batchLimits;
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const text of texts) {
+      const tokens = estimateTokenCount(text);
+      const wouldOverflow = current.length >= maxInputs || currentTokens + tokens > maxTokens;
+
+      if (current.length > 0 && wouldOverflow) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+
+      // Oversized inputs still get their own batch; the provider decides whether to truncate or reject
+      current.push(text);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  private async withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+    } else {
+      // The finishing task hands its slot straight to us, so `active` is left untouched
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  private async embedWithRetry(batch: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.provider.embed(batch, inputType);
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+        await sleep(this.retryDelay(error, attempt));
+      }
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    const { code, status } = errorDetails(error);
+    return code === 'rate_limit_exceeded' || (status !== undefined && RETRYABLE_STATUSES.has(status));
+  }
+
+  private retryDelay(error: unknown, attempt: number): number {
+    // Honour the server's hint when it gives one
+    const retryAfter = Number(errorDetails(error).retryAfter);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, this.maxDelayMs);
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+    return Math.random() * ceiling;
+  }
+}
+
+// The SDK's APIError and EmbeddingProviderError both carry status and headers; headers are a
+// Headers instance or, from some SDK paths, a plain record
+function errorDetails(error: unknown): { code?: unknown; status?: number; retryAfter?: string | null } {
+  if (typeof error !== 'object' || error === null) return {};
+
+  const { code, status, headers } = error as { code?: unknown; status?: unknown; headers?: unknown };
+  let retryAfter: string | null | undefined;
+  if (headers instanceof Headers) {
+    retryAfter = headers.get('retry-after');
+  } else if (typeof headers === 'object' && headers !== null) {
+    const value = (headers as Record<string, unknown>)['retry-after'];
+    retryAfter = typeof value === 'string' ? value : undefined;
+  }
+
+  return { code, status: typeof status === 'number' ? status : undefined, retryAfter };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,133 @@
+import { type EmbeddingProvider, type EmbeddingInputType } from './embedding-providers';
+import { openDatabase, request, transactionDone } from '@/lib/indexed-db';
+
+const DB_NAME = 'semantic-analyzer-cache';
+const DB_VERSION = 1;
+const STORE = 'embeddings';
+
+interface CachedEmbedding {
+  key: string; // namespace + SHA-256 of the normalized text; the text itself is never stored
+  vector: Float32Array;
+  lastAccessed: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Persistent (IndexedDB) cache so re-runs only embed keywords and sections that changed.
+// Entries are keyed by provider, endpoint, model and dimensions because vectors are not portable across them.
+// Every operation degrades to a cache miss when IndexedDB is unavailable (e.g. private browsing).
+export class EmbeddingCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private maxEntries: number = 5000) {}
+
+  static namespaceFor(provider: EmbeddingProvider, inputType: EmbeddingInputType = 'document'): string {
+    const namespace = [provider.provider, provider.endpoint, provider.model, provider.dimensions ?? 'default'].join('|');
+    return provider.distinguishesQueries && inputType === 'query' ? `${namespace}|query` : namespace;
+  }
+
+  async getMany(namespace: string, texts: string[]): Promise<Array<number[] | undefined>> {
+    try {
+      const keys = await Promise.all(texts.map(text => this.keyFor(namespace, text)));
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+
+      const results = await Promise.all(keys.map(async key => {
+        const entry = await request<CachedEmbedding | undefined>(store.get(key));
+        if (!entry) return undefined;
+
+        // Touch the entry so LRU eviction keeps it
+        store.put({ ...entry, lastAccessed: now });
+        return Array.from(entry.vector);
+      }));
+
+      await transactionDone(tx);
+      return results;
+    } catch {
+      return texts.map(() => undefined);
+    }
+  }
+
+  async putMany(namespace: string, texts: string[], vectors: number[][]): Promise<void> {
+    try {
+      const keys = await Promise.all(texts.map(text => this.keyFor(namespace, text)));
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+
+      keys.forEach((key, i) => {
+        store.put({ key, vector: Float32Array.from(vectors[i]), lastAccessed: now } satisfies CachedEmbedding);
+      });
+
+      await transactionDone(tx);
+      await this.evict();
+    } catch {
+      // Caching is best-effort; a failed write only costs a future re-embed
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      const db = await this.open();
+      return await request(db.transaction(STORE).objectStore(STORE).count());
+    } catch {
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  private async evict(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let excess = (await request(store.count())) - this.maxEntries;
+
+    if (excess > 0) {
+      // Walk from least recently used upwards
+      const cursorRequest = store.index('lastAccessed').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+
+    await transactionDone(tx);
+  }
+
+  private async keyFor(namespace: string, text: string): Promise<string> {
+    const normalized = text.normalize('NFC').replace(/\s+/g, ' ').trim();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${namespace}|${hex}`;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export singleton instance
+export const embeddingCache = new EmbeddingCache();
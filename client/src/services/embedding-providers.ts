@@ -0,0 +1,217 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { type EmbeddingConfig, type EmbeddingProviderId } from '@shared/schema';
+
+export interface EmbeddingBatchLimits {
+  maxInputs: number;
+  maxTokens: number; // Estimated tokens across all inputs of one request
+}
+
+// Keywords and other short search phrases are queries; page content is documents
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingProvider {
+  readonly provider: EmbeddingProviderId;
+  readonly model: string;
+  readonly dimensions?: number;
+  // Where vectors come from: Azure deployment names and self-hosted model names are arbitrary, so
+  // the same model name on two endpoints can be two different models
+  readonly endpoint: string;
+  readonly batchLimits: EmbeddingBatchLimits;
+  // Asymmetric models embed queries and documents differently, so their vectors are cached apart
+  readonly distinguishesQueries: boolean;
+  // Returns one vector per input, in input order
+  embed(inputs: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderPreset {
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  batchLimits: EmbeddingBatchLimits;
+}
+
+export const EMBEDDING_PROVIDER_PRESETS: Record<EmbeddingProviderId, EmbeddingProviderPreset> = {
+  'openai': {
+    label: 'OpenAI',
+    defaultModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+    batchLimits: { maxInputs: 2048, maxTokens: 100000 }
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    defaultModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+    requiresBaseUrl: true,
+    batchLimits: { maxInputs: 2048, maxTokens: 100000 }
+  },
+  'cohere': {
+    label: 'Cohere',
+    defaultModel: 'embed-english-v3.0',
+    defaultBaseUrl: 'https://api.cohere.com',
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+    batchLimits: { maxInputs: 96, maxTokens: 50000 }
+  },
+  'openai-compatible': {
+    label: 'Local / OpenAI-compatible',
+    defaultModel: 'nomic-embed-text',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    requiresApiKey: false,
+    requiresBaseUrl: true,
+    batchLimits: { maxInputs: 64, maxTokens: 16000 }
+  }
+};
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: 'openai',
+  model: EMBEDDING_PROVIDER_PRESETS['openai'].defaultModel
+};
+
+// Carries the HTTP status so handleOpenAIError can treat every provider the same way
+export class EmbeddingProviderError extends Error {
+  constructor(message: string, public status?: number, public headers?: Headers) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+// The Vite dev proxy (and the Netlify redirect) rewrite "/openai" to "https://api.openai.com",
+// so keeping the "/v1" segment ensures requests map to the correct OpenAI REST path.
+export function proxiedOpenAIBaseURL(): string {
+  return typeof window !== 'undefined'
+    ? `${window.location.origin}/openai/v1`
+    : 'http://localhost:3000/openai/v1';
+}
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly batchLimits: EmbeddingBatchLimits;
+  readonly distinguishesQueries = false;
+
+  constructor(
+    private client: OpenAI,
+    readonly provider: EmbeddingProviderId,
+    readonly endpoint: string,
+    readonly model: string,
+    readonly dimensions?: number
+  ) {
+    this.batchLimits = EMBEDDING_PROVIDER_PRESETS[provider].batchLimits;
+  }
+
+  // The OpenAI embeddings API has no input type, so queries and documents are embedded alike
+  async embed(inputs: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: inputs,
+      // Local servers do not understand the SDK's default base64 encoding
+      encoding_format: 'float',
+      ...(this.dimensions ? { dimensions: this.dimensions } : {})
+    });
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+class CohereEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'cohere' as const;
+  readonly batchLimits = EMBEDDING_PROVIDER_PRESETS['cohere'].batchLimits;
+  readonly distinguishesQueries = true;
+
+  constructor(
+    private apiKey: string,
+    readonly endpoint: string,
+    readonly model: string,
+    readonly dimensions?: number
+  ) {}
+
+  async embed(inputs: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const response = await fetch(`${this.endpoint}/v2/embed`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        texts: inputs,
+        // v3 models are trained asymmetrically: keywords must be embedded as search queries
+        input_type: inputType === 'query' ? 'search_query' : 'search_document',
+        embedding_types: ['float'],
+        ...(this.dimensions ? { output_dimension: this.dimensions } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingProviderError(await response.text(), response.status, response.headers);
+    }
+
+    const body = await response.json();
+    const embeddings: number[][] | undefined = body.embeddings?.float;
+    if (!embeddings || embeddings.length !== inputs.length) {
+      throw new EmbeddingProviderError('Cohere returned an unexpected embedding response');
+    }
+    return embeddings;
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig, apiKey: string): EmbeddingProvider {
+  const preset = EMBEDDING_PROVIDER_PRESETS[config.provider];
+  const baseUrl = (config.baseUrl || preset.defaultBaseUrl)?.replace(/\/+$/, '');
+
+  if (preset.requiresBaseUrl && !baseUrl) {
+    throw new Error(`${preset.label} requires an endpoint URL`);
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        new OpenAI({
+          apiKey,
+          baseURL: proxiedOpenAIBaseURL(),
+          maxRetries: 0, // EmbeddingBatcher owns retries
+          dangerouslyAllowBrowser: true // Required for client-side usage
+        }),
+        'openai',
+        'https://api.openai.com',
+        config.model,
+        config.dimensions
+      );
+    case 'azure-openai': {
+      const deployment = config.deployment || config.model;
+      return new OpenAIEmbeddingProvider(
+        new AzureOpenAI({
+          apiKey,
+          endpoint: baseUrl,
+          deployment,
+          apiVersion: config.apiVersion || '2024-10-21',
+          maxRetries: 0,
+          dangerouslyAllowBrowser: true
+        }),
+        'azure-openai',
+        `${baseUrl}/deployments/${deployment}`,
+        config.model,
+        config.dimensions
+      );
+    }
+    case 'cohere':
+      return new CohereEmbeddingProvider(apiKey, baseUrl!, config.model, config.dimensions);
+    case 'openai-compatible':
+      return new OpenAIEmbeddingProvider(
+        new OpenAI({
+          // Ollama and llama.cpp ignore the key, but the SDK refuses to start without one
+          apiKey: apiKey || 'not-required',
+          baseURL: baseUrl,
+          maxRetries: 0,
+          dangerouslyAllowBrowser: true
+        }),
+        'openai-compatible',
+        baseUrl!,
+        config.model,
+        config.dimensions
+      );
+  }
+}
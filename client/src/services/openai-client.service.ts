@@ -4,38 +4,148 @@ import {
   type AnalysisResult, 
   type Keyword,
   type ChunkResult,
+  type CompetitorResult,
   type KeywordCoverage,
-  type SectionImprovement 
+  type SectionImprovement,
+  type EnhanceRequest,
+  type EnhanceResponse,
+  type EnhancementEdit,
+  type SimilarityMatrix,
+  type EmbeddingConfig,
+  type ChunkingStrategy,
+  type ScoreCalibration,
+  type CompetitorTerm,
+  enhanceRequestSchema
 } from '@shared/schema';
+import { intelligentChunkText } from '@/lib/analysis';
+import { analyzeLexical } from '@/lib/lexical-analysis';
+import { type KeywordVariants, expandKeyword, countKeywordMentions, variantFormsFound } from '@/lib/keyword-variants';
+import { type TextSection, createSpanResolver } from '@/lib/text-analysis';
+import { extractCandidateTerms, termKeysIn } from '@/lib/term-extraction';
+import {
+  type EmbeddingProvider,
+  type EmbeddingInputType,
+  createEmbeddingProvider,
+  proxiedOpenAIBaseURL,
+  DEFAULT_EMBEDDING_CONFIG
+} from './embedding-providers';
+import { EmbeddingBatcher } from './embedding-batcher';
+import { EmbeddingCache, embeddingCache, type CacheStats } from './embedding-cache';
+import { type ScoringDocument, scoreDocuments } from './scoring-strategies';
+import { REFERENCE_TOPICS, CALIBRATED_STRATEGIES, buildCalibrationTable } from './score-calibration';
+
+// Keyword-vs-section cosine similarity bands used for coverage. Sections at or above STRONG
+// clearly discuss the keyword; below WEAK they do not address it at all.
+const STRONG_SECTION_SIMILARITY = 0.45;
+const WEAK_SECTION_SIMILARITY = 0.3;
+
+// Competitor terms at least this similar to a keyword count as related to it. Only the most
+// widespread candidates are embedded, to keep the extra embedding calls bounded: up to 80 the page
+// lacks (possible gaps) and 20 it already uses (related terms found).
+const RELATED_TERM_SIMILARITY = 0.4;
+const MAX_CANDIDATE_TERMS = 80;
+const MAX_USED_CANDIDATE_TERMS = 20;
+const MAX_TERMS_PER_KEYWORD = 8;
+
+// gpt-4o-mini's 128k context fits a 50k character page plus its rewrite; the per-request output
+// cap is lower, so long rewrites are continued until the model finishes on its own
+const ENHANCEMENT_MODEL = 'gpt-4o-mini';
+const ENHANCEMENT_MAX_TOKENS = 4096;
+const MAX_ENHANCEMENT_CONTINUATIONS = 6;
+
+// Raised by the app rather than the API, so its message reaches the user unchanged
+class IncompleteEnhancementError extends Error {
+  constructor() {
+    super(`The enhanced text was still incomplete after ${MAX_ENHANCEMENT_CONTINUATIONS} continuations. Try enhancing a shorter text.`);
+    this.name = 'IncompleteEnhancementError';
+  }
+}
+
+export interface EnhanceOptions {
+  signal?: AbortSignal;
+  // Called as tokens stream in with the enhanced text up to the section being rewritten
+  onProgress?: (enhancedSoFar: string) => void;
+}
+
+// A weak section to rewrite. Overlapping sections (sliding windows) are merged into one target so
+// every character of the original is rewritten at most once.
+interface EnhancementTarget {
+  sections: string[];
+  start: number;
+  end: number;
+  missingKeywords: string[];
+  suggestedPhrases: string[];
+}
+
+interface EmbeddedSection {
+  title: string;
+  text: string;
+  embedding: number[];
+}
+
+interface AnalyzedDocument {
+  score: number;
+  chunks?: ChunkResult[];
+  sections: EmbeddedSection[];
+}
+
+interface AnalyzedCompetitor extends AnalyzedDocument {
+  name: string;
+  text: string;
+  similarities: number[][];
+}
+
+interface KeywordTerms {
+  found: string[]; // related competitor terms your copy also uses
+  missing: CompetitorTerm[]; // best first
+}
+
+interface KeywordEmbedding {
+  keyword: string;
+  weight: number;
+  embedding: number[];
+  variants: KeywordVariants; // forms counted as mentions
+  details: Pick<Keyword, 'role' | 'intent' | 'searchVolume' | 'group'>; // carried into the keyword's coverage
+}
 
 export class OpenAIClientService {
   private openai: OpenAI | null = null;
-
-  initialize(apiKey: string) {
-    if (!apiKey.startsWith('sk-')) {
+  private embeddingProvider: EmbeddingProvider | null = null;
+  private batcher: EmbeddingBatcher | null = null;
+  private cacheStats: CacheStats = { hits: 0, misses: 0 };
+  // Reference tables per embedding model, built the first time a calibrated score is requested
+  private calibrations = new Map<string, ScoreCalibration>();
+
+  initialize(apiKey: string, embedding: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG) {
+    if (embedding.provider === 'openai' && !apiKey.startsWith('sk-')) {
       throw new Error('Invalid API key format');
     }
-    
-    // Use an absolute base URL that includes /v1 so the OpenAI SDK constructs valid request URLs
-    // The Vite dev proxy rewrites the "/openai" prefix to "https://api.openai.com", so keeping the
-    // "/v1" segment ensures requests map to the correct OpenAI REST path (e.g. /v1/embeddings).
-    const baseURL = typeof window !== 'undefined'
-      ? `${window.location.origin}/openai/v1`
-      : 'http://localhost:3000/openai/v1';
-
-    this.openai = new OpenAI({
-      apiKey,
-      baseURL,
-      dangerouslyAllowBrowser: true // Required for client-side usage
-    });
+
+    this.embeddingProvider = createEmbeddingProvider(embedding, apiKey);
+    this.batcher = new EmbeddingBatcher(this.embeddingProvider);
+
+    // Chat completions (AI enhancement) are only available through OpenAI itself, and only when the
+    // user chose OpenAI: with any other provider their copy must not leave for api.openai.com
+    this.openai = embedding.provider === 'openai'
+      ? new OpenAI({
+          apiKey,
+          baseURL: proxiedOpenAIBaseURL(),
+          dangerouslyAllowBrowser: true // Required for client-side usage
+        })
+      : null;
+  }
+
+  canEnhance(): boolean {
+    return this.openai !== null;
   }
 
   async analyze(data: AnalysisRequest): Promise<AnalysisResult> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+    if (!this.embeddingProvider) {
+      throw new Error('Embedding provider not initialized');
     }
 
     const startTime = Date.now();
+    this.cacheStats = { hits: 0, misses: 0 };
 
     try {
       // Generate keyword embeddings
@@ -44,65 +154,93 @@ export class OpenAIClientService {
       // Calculate weighted centroid
       const centroid = this.calculateWeightedCentroid(keywordEmbeddings);
       
-      // Analyze content
-      let mainCopyScore: number;
-      let competitorCopyScore: number;
-      let mainCopyChunks: ChunkResult[] | undefined;
-      let competitorCopyChunks: ChunkResult[] | undefined;
-
-      if (data.analysisMode === 'chunked') {
-        const results = await this.performChunkedAnalysis(
-          data.mainCopy,
-          data.competitorCopy,
-          centroid
-        );
-        
-        mainCopyScore = results.mainScore;
-        competitorCopyScore = results.competitorScore;
-        mainCopyChunks = results.mainChunks;
-        competitorCopyChunks = results.competitorChunks;
-      } else {
-        const results = await this.performFullAnalysis(
-          data.mainCopy,
-          data.competitorCopy,
-          centroid
-        );
-        
-        mainCopyScore = results.mainScore;
-        competitorCopyScore = results.competitorScore;
-      }
+      // Analyze content - our copy first, then every competitor
+      const documents = [data.mainCopy, ...data.competitors.map(competitor => competitor.copy)];
+      const [main, ...competitorDocuments] = data.analysisMode === 'chunked'
+        ? await this.performChunkedAnalysis(documents, centroid, data.chunkingStrategy)
+        : await this.performFullAnalysis(documents, centroid);
+
+      // Similarity of every keyword to every section, for every document
+      const mainSimilarities = this.buildSimilarityMatrix(keywordEmbeddings, main.sections);
+      const competitorDocs: AnalyzedCompetitor[] = data.competitors.map((competitor, i) => ({
+        name: competitor.name,
+        text: competitor.copy,
+        score: competitorDocuments[i].score,
+        chunks: competitorDocuments[i].chunks,
+        sections: competitorDocuments[i].sections,
+        similarities: this.buildSimilarityMatrix(keywordEmbeddings, competitorDocuments[i].sections)
+      }));
+
+      // Score every document with the selected strategy; they are scored together since BM25
+      // normalizes against the whole set
+      const [mainScore, ...competitorScores] = scoreDocuments(
+        data.scoringStrategy,
+        keywordEmbeddings.map(k => k.weight),
+        [
+          this.toScoringDocument(keywordEmbeddings, data.mainCopy, main, mainSimilarities),
+          ...competitorDocs.map(doc => this.toScoringDocument(keywordEmbeddings, doc.text, doc, doc.similarities))
+        ]
+      );
+
+      const mainCopyScore = mainScore.score;
+      const competitors: CompetitorResult[] = competitorDocs
+        .map((doc, i) => ({
+          name: doc.name,
+          score: competitorScores[i].score,
+          chunks: doc.chunks,
+          similarityMatrix: this.toSimilarityMatrix(keywordEmbeddings, doc.sections, doc.similarities)
+        }))
+        .sort((a, b) => b.score - a.score);
+      const competitorMedianScore = this.median(competitors.map(c => c.score));
 
       // Generate gap analysis
-      const gap = mainCopyScore - competitorCopyScore;
-      const gapAnalysis = this.generateGapAnalysis(gap);
+      const gapAnalysis = this.generateGapAnalysis(mainCopyScore, competitors, competitorMedianScore);
+
+      // Terms competitors use around each keyword
+      const keywordTerms = await this.discoverCompetitorTerms(keywordEmbeddings, data.mainCopy, competitorDocs);
 
       // Analyze keyword coverage
-      const keywordAnalysis = await this.analyzeKeywordCoverage(
-        data.keywords,
+      const keywordAnalysis = this.analyzeKeywordCoverage(
+        keywordEmbeddings,
         data.mainCopy,
-        data.competitorCopy,
-        mainCopyChunks || [],
-        competitorCopyChunks || []
+        main.sections,
+        mainSimilarities,
+        mainScore.contributions,
+        competitorDocs,
+        keywordTerms
       );
 
+      // Calibration tables describe the model, not this request, so one table serves every run
+      const calibration = data.calibrateScores && CALIBRATED_STRATEGIES.includes(data.scoringStrategy)
+        ? await this.getCalibration()
+        : undefined;
+
       // Generate improvement suggestions
       const sectionImprovements = this.analyzeSectionImprovements(
-        mainCopyChunks || [],
-        competitorCopyChunks || [],
+        main.chunks || [],
         data.keywords,
         keywordAnalysis
       );
 
       return {
-        mainCopyScore: Math.round(mainCopyScore * 10) / 10,
-        competitorCopyScore: Math.round(competitorCopyScore * 10) / 10,
+        mainCopyScore,
+        competitors,
+        competitorMedianScore,
         gapAnalysis,
-        mainCopyChunks,
-        competitorCopyChunks,
+        mainCopyChunks: main.chunks,
         keywordWeights: data.keywords,
         processingTime: Date.now() - startTime,
+        cacheStats: { ...this.cacheStats },
         keywordAnalysis,
-        sectionImprovements
+        sectionImprovements,
+        similarityMatrix: this.toSimilarityMatrix(keywordEmbeddings, main.sections, mainSimilarities),
+        embedding: {
+          provider: this.embeddingProvider.provider,
+          model: this.embeddingProvider.model,
+          dimensions: centroid.length
+        },
+        scoringStrategy: data.scoringStrategy,
+        calibration
       };
     } catch (error: any) {
       console.error('Analysis error:', error);
@@ -110,54 +248,170 @@ export class OpenAIClientService {
     }
   }
 
-  async enhance(originalText: string, improvements: SectionImprovement[]): Promise<string> {
+  // For keyword tools outside an analysis, e.g. auto-organizing a pasted list
+  async embedKeywords(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingProvider) {
+      throw new Error('Embedding provider not initialized');
+    }
+
+    try {
+      return await this.embedTexts(texts, 'query');
+    } catch (error: any) {
+      throw this.handleOpenAIError(error);
+    }
+  }
+
+  async enhance(input: EnhanceRequest, options: EnhanceOptions = {}): Promise<EnhanceResponse> {
     if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+      throw new Error('AI enhancement uses OpenAI chat models and is only available with OpenAI as the embedding provider');
+    }
+
+    const parsed = enhanceRequestSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(`Invalid enhancement request: ${parsed.error.issues[0].message}`);
     }
+    const { originalText, improvements, scoreThreshold, keywords = [] } = parsed.data;
+    const targets = this.selectEnhancementTargets(improvements, scoreThreshold);
+    const resolve = createSpanResolver(originalText);
 
-    const prompt = this.buildEnhancementPrompt(originalText, improvements);
+    let enhancedContent = '';
+    let model: string = ENHANCEMENT_MODEL;
+    let cursor = 0;
+    const edits: EnhancementEdit[] = [];
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "You are a content optimization expert who enhances text for better SEO while maintaining readability."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
+      for (const target of targets) {
+        enhancedContent += originalText.slice(cursor, target.start);
+
+        // Models trim surrounding whitespace, so it is kept from the original to leave the
+        // boundaries with untouched neighbouring sections intact
+        const original = originalText.slice(target.start, target.end);
+        const [, leading, body, trailing] = original.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        const prefix = enhancedContent + leading;
+
+        const completion = await this.streamCompletion(
+          this.buildEnhancementPrompt(body, target),
+          options.signal,
+          partial => options.onProgress?.(prefix + partial)
+        );
+        model = completion.model;
+
+        const rewritten = completion.text.trim() || body;
+        enhancedContent = prefix + rewritten + trailing;
+        cursor = target.end;
+
+        edits.push({
+          section: target.sections.join(', '),
+          span: resolve(target.start, target.end),
+          keywordsAdded: target.missingKeywords.filter(keyword => {
+            const variants = expandKeyword(keywords.find(k => k.text === keyword) ?? keyword);
+            return countKeywordMentions(rewritten, variants) > countKeywordMentions(body, variants);
+          })
+        });
+      }
+    } catch (error: any) {
+      throw error instanceof IncompleteEnhancementError ? error : this.handleOpenAIError(error, 'enhancement');
+    }
+
+    enhancedContent += originalText.slice(cursor);
+    return { enhancedContent, model, edits };
+  }
+
+  // Streams one completion, continuing it whenever the model stops at max_tokens
+  private async streamCompletion(
+    prompt: string,
+    signal: AbortSignal | undefined,
+    onProgress: (textSoFar: string) => void
+  ): Promise<{ text: string; model: string }> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "system",
+        content: "You are a content optimization expert who enhances text for better SEO while maintaining readability."
+      },
+      { role: "user", content: prompt }
+    ];
+
+    let text = '';
+    let model: string = ENHANCEMENT_MODEL;
+
+    for (let attempt = 0; attempt <= MAX_ENHANCEMENT_CONTINUATIONS; attempt++) {
+      const stream = await this.openai!.chat.completions.create({
+        model: ENHANCEMENT_MODEL,
+        messages,
         temperature: 0.3,
-        max_tokens: 2000
-      });
+        max_tokens: ENHANCEMENT_MAX_TOKENS,
+        stream: true
+      }, { signal });
+
+      let part = '';
+      let finishReason: string | null = null;
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+        if (choice.delta?.content) {
+          part += choice.delta.content;
+          onProgress(text + part);
+        }
+        finishReason = choice.finish_reason ?? finishReason;
+      }
+      text += part;
 
-      return completion.choices[0].message.content || originalText;
-    } catch (error: any) {
-      throw this.handleOpenAIError(error);
+      if (finishReason !== 'length') return { text, model };
+
+      // Hit max_tokens mid-text: hand the partial answer back and ask for the rest
+      messages.push(
+        { role: "assistant", content: part },
+        { role: "user", content: "Continue exactly where you stopped, without repeating or summarizing anything already written." }
+      );
     }
+
+    // Returning the partial text would silently drop the end of the section
+    throw new IncompleteEnhancementError();
   }
 
-  private async generateKeywordEmbeddings(keywords: Keyword[]) {
-    if (!this.openai) throw new Error('OpenAI not initialized');
+  private async embedTexts(texts: string[], inputType: EmbeddingInputType = 'document'): Promise<number[][]> {
+    if (!this.batcher || !this.embeddingProvider) throw new Error('Embedding provider not initialized');
 
-    const embeddings = await Promise.all(
-      keywords.map(async (keyword) => {
-        const response = await this.openai!.embeddings.create({
-          model: "text-embedding-3-small",
-          input: keyword.text
-        });
-        return {
-          keyword: keyword.text,
-          weight: keyword.weight,
-          embedding: response.data[0].embedding
-        };
-      })
+    const namespace = EmbeddingCache.namespaceFor(this.embeddingProvider, inputType);
+    const cached = await embeddingCache.getMany(namespace, texts);
+    const missing = texts.filter((_, i) => !cached[i]);
+
+    this.cacheStats.hits += texts.length - missing.length;
+    this.cacheStats.misses += missing.length;
+
+    if (missing.length === 0) return cached as number[][];
+
+    const fresh = await this.batcher.embed(missing, inputType);
+    await embeddingCache.putMany(namespace, missing, fresh);
+
+    let next = 0;
+    return cached.map(vector => vector ?? fresh[next++]);
+  }
+
+  private async getCalibration(): Promise<ScoreCalibration> {
+    const namespace = EmbeddingCache.namespaceFor(this.embeddingProvider!);
+    const known = this.calibrations.get(namespace);
+    if (known) return known;
+
+    const calibration = buildCalibrationTable(
+      await this.embedTexts(REFERENCE_TOPICS.map(topic => topic.keyword), 'query'),
+      await this.embedTexts(REFERENCE_TOPICS.map(topic => topic.text))
     );
+    this.calibrations.set(namespace, calibration);
+    return calibration;
+  }
 
-    return embeddings;
+  private async generateKeywordEmbeddings(keywords: Keyword[]) {
+    const embeddings = await this.embedTexts(keywords.map(keyword => keyword.text), 'query');
+
+    return keywords.map((keyword, index) => ({
+      keyword: keyword.text,
+      weight: keyword.weight,
+      embedding: embeddings[index],
+      variants: expandKeyword(keyword),
+      details: { role: keyword.role, intent: keyword.intent, searchVolume: keyword.searchVolume, group: keyword.group }
+    }));
   }
 
   private calculateWeightedCentroid(embeddings: any[]) {
@@ -179,99 +433,54 @@ export class OpenAIClientService {
     return weightedCentroid.map(val => val / magnitude);
   }
 
-  private async performFullAnalysis(
-    mainCopy: string,
-    competitorCopy: string,
-    centroid: number[]
-  ) {
-    if (!this.openai) throw new Error('OpenAI not initialized');
-
-    const [mainEmbedding, competitorEmbedding] = await Promise.all([
-      this.openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: mainCopy
-      }),
-      this.openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: competitorCopy
-      })
-    ]);
+  private async performFullAnalysis(documents: string[], centroid: number[]): Promise<AnalyzedDocument[]> {
+    const embeddings = await this.embedTexts(documents);
 
-    return {
-      mainScore: this.cosineSimilarity(centroid, mainEmbedding.data[0].embedding) * 100,
-      competitorScore: this.cosineSimilarity(centroid, competitorEmbedding.data[0].embedding) * 100
-    };
+    // Without chunking the whole document is the only section keywords can be measured against
+    return documents.map((text, i) => ({
+      score: this.cosineSimilarity(centroid, embeddings[i]) * 100,
+      sections: [{ title: 'Full Content', text, embedding: embeddings[i] }]
+    }));
   }
 
   private async performChunkedAnalysis(
-    mainCopy: string,
-    competitorCopy: string,
-    centroid: number[]
-  ) {
-    const mainChunks = this.chunkText(mainCopy);
-    const competitorChunks = this.chunkText(competitorCopy);
-
-    const [mainResults, competitorResults] = await Promise.all([
-      this.analyzeChunks(mainChunks, centroid),
-      this.analyzeChunks(competitorChunks, centroid)
-    ]);
-
-    const mainScore = mainResults.reduce((sum, chunk) => sum + chunk.score, 0) / mainResults.length;
-    const competitorScore = competitorResults.reduce((sum, chunk) => sum + chunk.score, 0) / competitorResults.length;
+    documents: string[],
+    centroid: number[],
+    strategy: ChunkingStrategy
+  ): Promise<AnalyzedDocument[]> {
+    const results = await Promise.all(
+      documents.map(text => this.analyzeChunks(intelligentChunkText(text, strategy), centroid))
+    );
 
-    return {
-      mainScore,
-      competitorScore,
-      mainChunks: mainResults,
-      competitorChunks: competitorResults
-    };
+    return results.map(({ chunks, sections }) => ({
+      score: chunks.reduce((sum, chunk) => sum + chunk.score, 0) / chunks.length,
+      chunks,
+      sections
+    }));
   }
 
   private async analyzeChunks(
-    chunks: Array<{text: string, startIndex: number, endIndex: number}>,
+    chunks: TextSection[],
     centroid: number[]
-  ): Promise<ChunkResult[]> {
-    if (!this.openai) throw new Error('OpenAI not initialized');
-
-    const embeddings = await Promise.all(
-      chunks.map(chunk => 
-        this.openai!.embeddings.create({
-          model: "text-embedding-3-small",
-          input: chunk.text
-        })
-      )
-    );
-
-    return chunks.map((chunk, index) => ({
-      title: `Section ${index + 1}`,
-      score: Math.round(this.cosineSimilarity(centroid, embeddings[index].data[0].embedding) * 1000) / 10,
-      startIndex: chunk.startIndex,
-      endIndex: chunk.endIndex,
-      text: chunk.text
+  ): Promise<{ chunks: ChunkResult[], sections: EmbeddedSection[] }> {
+    const embeddings = await this.embedTexts(chunks.map(chunk => chunk.content));
+
+    const results = chunks.map((chunk, index) => ({
+      title: chunk.title,
+      level: chunk.level,
+      score: Math.round(this.cosineSimilarity(centroid, embeddings[index]) * 1000) / 10,
+      span: chunk.span,
+      text: chunk.content
     }));
-  }
 
-  private chunkText(text: string, chunkSize: number = 500, overlap: number = 100) {
-    const words = text.split(/\s+/);
-    const chunks: Array<{text: string, startIndex: number, endIndex: number}> = [];
-    
-    let startIndex = 0;
-    
-    while (startIndex < words.length) {
-      const endIndex = Math.min(startIndex + chunkSize, words.length);
-      const chunkWords = words.slice(startIndex, endIndex);
-      
-      chunks.push({
-        text: chunkWords.join(' '),
-        startIndex,
-        endIndex: endIndex - 1
-      });
-      
-      if (endIndex >= words.length) break;
-      startIndex = endIndex - overlap;
-    }
-    
-    return chunks;
+    return {
+      chunks: results,
+      sections: results.map((chunk, index) => ({
+        title: chunk.title,
+        text: chunk.text,
+        embedding: embeddings[index]
+      }))
+    };
   }
 
   private cosineSimilarity(a: number[], b: number[]): number {
@@ -288,51 +497,218 @@ export class OpenAIClientService {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  private generateGapAnalysis(gap: number): string {
-    return gap > 0 
-      ? `Your copy is ${Math.abs(gap).toFixed(1)}% more aligned with target keywords than competitor content. This indicates strong keyword optimization and semantic relevance.`
-      : `Your copy is ${Math.abs(gap).toFixed(1)}% less aligned with target keywords than competitor content. Consider improving keyword density and semantic relevance.`;
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+    return Math.round(median * 10) / 10;
   }
 
-  private async analyzeKeywordCoverage(
-    keywords: Keyword[],
+  private generateGapAnalysis(mainScore: number, competitors: CompetitorResult[], medianScore: number): string {
+    const leader = competitors[0];
+    const leaderGap = mainScore - leader.score;
+
+    if (competitors.length === 1) {
+      return leaderGap > 0 
+        ? `Your copy is ${Math.abs(leaderGap).toFixed(1)}% more aligned with target keywords than competitor content. This indicates strong keyword optimization and semantic relevance.`
+        : `Your copy is ${Math.abs(leaderGap).toFixed(1)}% less aligned with target keywords than competitor content. Consider improving keyword density and semantic relevance.`;
+    }
+
+    const medianGap = mainScore - medianScore;
+    const summary = `Your copy is ${Math.abs(medianGap).toFixed(1)}% ${medianGap >= 0 ? 'more' : 'less'} aligned with target keywords than the median of ${competitors.length} competitors (${medianScore}%), ` +
+      `and ${Math.abs(leaderGap).toFixed(1)}% ${leaderGap > 0 ? 'ahead of' : 'behind'} the leader, ${leader.name} (${leader.score}%).`;
+
+    if (leaderGap > 0) {
+      return `${summary} You outrank every competitor on semantic relevance.`;
+    }
+    if (medianGap >= 0) {
+      return `${summary} You beat the typical competitor; study how ${leader.name} covers your weakest keywords to close the remaining gap.`;
+    }
+    return `${summary} Most competitors are more aligned. Consider improving keyword density and semantic relevance.`;
+  }
+
+  // Raw cosine similarities, indexed [keyword][section]
+  private buildSimilarityMatrix(keywordEmbeddings: KeywordEmbedding[], sections: EmbeddedSection[]): number[][] {
+    return keywordEmbeddings.map(({ embedding }) =>
+      sections.map(section => this.cosineSimilarity(embedding, section.embedding))
+    );
+  }
+
+  private toSimilarityMatrix(
+    keywordEmbeddings: KeywordEmbedding[],
+    sections: EmbeddedSection[],
+    similarities: number[][]
+  ): SimilarityMatrix {
+    return {
+      keywords: keywordEmbeddings.map(k => k.keyword),
+      sections: sections.map(section => section.title),
+      values: similarities.map(row => row.map(value => Math.round(value * 1000) / 10))
+    };
+  }
+
+  // Phrases that recur across competitors, ranked per keyword by similarity to it and by how many
+  // competitors use them. Terms that are the keyword itself or part of it are left out.
+  private async discoverCompetitorTerms(
+    keywordEmbeddings: KeywordEmbedding[],
     mainText: string,
-    competitorText: string,
-    mainChunks: ChunkResult[],
-    competitorChunks: ChunkResult[]
-  ): Promise<KeywordCoverage[]> {
-    const results: KeywordCoverage[] = [];
-    
-    for (const keyword of keywords) {
-      const mainMentions = this.countMentions(mainText, keyword.text);
-      const competitorMentions = this.countMentions(competitorText, keyword.text);
-      
-      results.push({
-        keyword: keyword.text,
-        weight: keyword.weight,
+    competitors: AnalyzedCompetitor[]
+  ): Promise<KeywordTerms[]> {
+    // With a single competitor, a term has to recur within it instead
+    const shared = extractCandidateTerms(competitors.map(c => c.text), Math.min(2, competitors.length))
+      .filter(candidate => competitors.length > 1 || candidate.mentions > 1)
+      .filter(candidate => !keywordEmbeddings.some(({ variants }) =>
+        variants.phrases.some(phrase => ` ${phrase.join(' ')} `.includes(` ${candidate.key} `))
+      ));
+    // Generic words every page shares would otherwise fill the slots before any real gap
+    const ownTerms = termKeysIn(mainText);
+    const candidates = [
+      ...shared.filter(candidate => !ownTerms.has(candidate.key)).slice(0, MAX_CANDIDATE_TERMS),
+      ...shared.filter(candidate => ownTerms.has(candidate.key)).slice(0, MAX_USED_CANDIDATE_TERMS)
+    ];
+    if (candidates.length === 0) return keywordEmbeddings.map(() => ({ found: [], missing: [] }));
+
+    // Compared with keyword vectors, so embedded the same way
+    const termEmbeddings = await this.embedTexts(candidates.map(candidate => candidate.term), 'query');
+
+    return keywordEmbeddings.map(({ embedding }) => {
+      const related = candidates
+        .map((candidate, i) => ({ candidate, similarity: this.cosineSimilarity(embedding, termEmbeddings[i]) }))
+        .filter(({ similarity }) => similarity >= RELATED_TERM_SIMILARITY);
+      const rank = (item: { candidate: { documents: number }; similarity: number }) =>
+        item.similarity * (item.candidate.documents / competitors.length);
+
+      return {
+        found: related
+          .filter(({ candidate }) => ownTerms.has(candidate.key))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, MAX_TERMS_PER_KEYWORD)
+          .map(({ candidate }) => candidate.term),
+        missing: related
+          .filter(({ candidate }) => !ownTerms.has(candidate.key))
+          .sort((a, b) => rank(b) - rank(a))
+          .slice(0, MAX_TERMS_PER_KEYWORD)
+          .map(({ candidate, similarity }) => ({
+            term: candidate.term,
+            similarity: Math.round(similarity * 1000) / 10,
+            competitors: candidate.documents,
+            mentions: candidate.mentions
+          }))
+      };
+    });
+  }
+
+  private toScoringDocument(
+    keywordEmbeddings: KeywordEmbedding[],
+    text: string,
+    document: AnalyzedDocument,
+    similarities: number[][]
+  ): ScoringDocument {
+    return {
+      text,
+      centroidScore: document.score,
+      centroidContributions: this.calculateScoreContributions(keywordEmbeddings, document.sections),
+      similarities,
+      mentions: keywordEmbeddings.map(({ variants }) => countKeywordMentions(text, variants))
+    };
+  }
+
+  private analyzeKeywordCoverage(
+    keywordEmbeddings: KeywordEmbedding[],
+    mainText: string,
+    mainSections: EmbeddedSection[],
+    mainMatrix: number[][],
+    contributions: number[], // points of the main copy's score per keyword
+    competitors: AnalyzedCompetitor[],
+    keywordTerms: KeywordTerms[]
+  ): KeywordCoverage[] {
+    const lexical = analyzeLexical(mainText, keywordEmbeddings.map(k => k.variants));
+
+    return keywordEmbeddings.map(({ keyword, weight, variants, details }, keywordIndex) => {
+      const mainMentions = countKeywordMentions(mainText, variants);
+      const mainSimilarities = mainMatrix[keywordIndex];
+      const semanticCoverage = this.calculateSemanticCoverage(mainSections, mainSimilarities);
+
+      const competitorCoverage = competitors.map(competitor => ({
+        name: competitor.name,
+        mentions: countKeywordMentions(competitor.text, variants),
+        semanticCoverage: this.calculateSemanticCoverage(competitor.sections, competitor.similarities[keywordIndex])
+      }));
+      const best = competitorCoverage.reduce((leader, candidate) =>
+        candidate.semanticCoverage > leader.semanticCoverage ||
+        (candidate.semanticCoverage === leader.semanticCoverage && candidate.mentions > leader.mentions)
+          ? candidate
+          : leader
+      );
+
+      return {
+        keyword,
+        weight,
+        ...details,
         directMentions: mainMentions,
-        semanticCoverage: 75, // Simplified for example
-        strongSections: [],
-        weakSections: mainChunks.map(c => c.title),
-        relatedTermsFound: [],
-        competitorAdvantage: competitorMentions > mainMentions * 1.5,
-        competitorMentions
+        semanticCoverage,
+        scoreContribution: contributions[keywordIndex],
+        lexical: lexical[keywordIndex],
+        strongSections: mainSections
+          .filter((_, i) => mainSimilarities[i] >= STRONG_SECTION_SIMILARITY)
+          .map(section => section.title),
+        weakSections: mainSections
+          .filter((_, i) => mainSimilarities[i] < WEAK_SECTION_SIMILARITY)
+          .map(section => section.title),
+        relatedTermsFound: Array.from(new Set([...variantFormsFound(mainText, variants), ...keywordTerms[keywordIndex].found])),
+        missingTerms: keywordTerms[keywordIndex].missing,
+        competitorCoverage,
+        bestCompetitor: best.name,
+        competitorSemanticCoverage: best.semanticCoverage,
+        competitorMentions: best.mentions,
+        competitorAdvantage: best.mentions > mainMentions * 1.5 ||
+          best.semanticCoverage > semanticCoverage + 15
+      };
+    });
+  }
+
+  // The score is the mean over sections of cos(section, centroid), and the centroid is the normalized
+  // weighted sum of keyword embeddings, so the score splits exactly into one term per keyword
+  private calculateScoreContributions(keywordEmbeddings: KeywordEmbedding[], sections: EmbeddedSection[]): number[] {
+    const weightedSum = new Array(keywordEmbeddings[0].embedding.length).fill(0);
+    keywordEmbeddings.forEach(({ embedding, weight }) => {
+      embedding.forEach((value, i) => {
+        weightedSum[i] += value * weight;
       });
-    }
-    
-    return results;
+    });
+    const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+    const sumNorm = norm(weightedSum);
+    const sectionNorms = sections.map(section => norm(section.embedding));
+
+    return keywordEmbeddings.map(({ embedding, weight }) => {
+      const total = sections.reduce((sum, section, i) =>
+        sum + (weight * dot(section.embedding, embedding)) / (sectionNorms[i] * sumNorm), 0);
+      return (total / sections.length) * 100;
+    });
   }
 
-  private countMentions(text: string, keyword: string): number {
-    const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(`\\b${escapedKeyword}\\b`, 'gi');
-    const matches = text.match(regex);
-    return matches ? matches.length : 0;
+  // Share of the document (by word count) that addresses a keyword. Each section contributes
+  // linearly between the weak and strong similarity bands, so partial coverage still counts.
+  private calculateSemanticCoverage(sections: EmbeddedSection[], similarities: number[]): number {
+    let coveredWords = 0;
+    let totalWords = 0;
+
+    sections.forEach((section, i) => {
+      const words = section.text.split(/\s+/).filter(Boolean).length;
+      const sectionCoverage = (similarities[i] - WEAK_SECTION_SIMILARITY) /
+        (STRONG_SECTION_SIMILARITY - WEAK_SECTION_SIMILARITY);
+
+      coveredWords += words * Math.min(1, Math.max(0, sectionCoverage));
+      totalWords += words;
+    });
+
+    return totalWords > 0 ? Math.round((coveredWords / totalWords) * 100) : 0;
   }
 
   private analyzeSectionImprovements(
     mainChunks: ChunkResult[],
-    competitorChunks: ChunkResult[],
     keywords: Keyword[],
     keywordAnalysis: KeywordCoverage[]
   ): SectionImprovement[] {
@@ -342,60 +718,108 @@ export class OpenAIClientService {
         .map(ka => ka.keyword)
         .slice(0, 3);
 
-      const suggestedPhrases = missingKeywords.map(keyword => 
-        `effective ${keyword} strategies`
-      );
+      // Prefer the related terms competitors use; fall back to a generic phrase without them
+      const suggestedPhrases = missingKeywords.flatMap(keyword => {
+        const terms = keywordAnalysis.find(ka => ka.keyword === keyword)?.missingTerms?.slice(0, 2) ?? [];
+        return terms.length > 0 ? terms.map(t => t.term) : [`effective ${keyword} strategies`];
+      });
+
+      const competitorStrengths = keywordAnalysis
+        .filter(ka => missingKeywords.includes(ka.keyword) && ka.competitorSemanticCoverage > ka.semanticCoverage)
+        .map(ka => `${ka.bestCompetitor} covers "${ka.keyword}" more broadly (${ka.competitorSemanticCoverage}% vs ${ka.semanticCoverage}%)`);
 
       return {
         section: chunk.title,
+        span: chunk.span,
         currentScore: chunk.score,
         missingKeywords,
         suggestedPhrases,
-        competitorStrengths: []
+        competitorStrengths
       };
     });
   }
 
-  private buildEnhancementPrompt(originalText: string, improvements: SectionImprovement[]): string {
-    return `You are a content optimization expert. Enhance the following text by naturally incorporating the suggested improvements while maintaining the original voice and structure.
+  // Weak sections that have something to add, in document order, with overlaps merged
+  private selectEnhancementTargets(improvements: SectionImprovement[], scoreThreshold: number): EnhancementTarget[] {
+    const weak = improvements
+      .filter(imp => imp.currentScore < scoreThreshold && imp.missingKeywords.length > 0)
+      .sort((a, b) => a.span.start - b.span.start);
+
+    const targets: EnhancementTarget[] = [];
+    for (const imp of weak) {
+      const last = targets[targets.length - 1];
+      if (last && imp.span.start < last.end) {
+        last.sections.push(imp.section);
+        last.end = Math.max(last.end, imp.span.end);
+        last.missingKeywords = Array.from(new Set([...last.missingKeywords, ...imp.missingKeywords]));
+        last.suggestedPhrases = Array.from(new Set([...last.suggestedPhrases, ...imp.suggestedPhrases]));
+      } else {
+        targets.push({
+          sections: [imp.section],
+          start: imp.span.start,
+          end: imp.span.end,
+          missingKeywords: [...imp.missingKeywords],
+          suggestedPhrases: [...imp.suggestedPhrases]
+        });
+      }
+    }
+    return targets;
+  }
 
-Original Text:
-${originalText}
+  private buildEnhancementPrompt(sectionText: string, target: EnhancementTarget): string {
+    return `You are a content optimization expert. Enhance the following section of a page by naturally incorporating the missing keywords while maintaining the original voice and structure.
 
-Improvements Needed:
-${improvements.map(imp => `
-Section: ${imp.section}
-Missing Keywords: ${imp.missingKeywords.join(', ')}
-Suggested Phrases: ${imp.suggestedPhrases.join(', ')}
-`).join('\n')}
+Section:
+${sectionText}
+
+Missing Keywords: ${target.missingKeywords.join(', ')}
+Suggested Phrases: ${target.suggestedPhrases.join(', ')}
 
 Rules:
 1. Add missing keywords naturally without keyword stuffing
 2. Maintain the original tone and style
-3. Keep the same overall structure
+3. Keep the same structure, headings and markup
 4. Make minimal changes - only add what's necessary
 5. Ensure all additions flow naturally with existing content
+6. Reply with the rewritten section only, without commentary
 
-Enhanced Text:`;
+Enhanced Section:`;
   }
 
-  private handleOpenAIError(error: any): Error {
-    if (error.status === 401) {
+  // operation names what failed: embeddings go to the configured provider, enhancement to OpenAI chat
+  private handleOpenAIError(error: any, operation: 'embedding' | 'enhancement' = 'embedding'): Error {
+    const isEnhancement = operation === 'enhancement';
+
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return new Error("Request cancelled.");
+    } else if (error.status === 401) {
       if (error.message?.includes('insufficient permissions')) {
         return new Error("Your API key doesn't have the required permissions. Please ensure your OpenAI API key has 'model.request' scope and proper organization/project access.");
       }
-      return new Error("Invalid OpenAI API key. Please check your key and try again.");
+      return new Error("Invalid API key. Please check your key and try again.");
     } else if (error.code === 'rate_limit_exceeded' || error.status === 429) {
-      return new Error("Rate limit exceeded. Please wait a moment and try again.");
+      return new Error("Rate limit still exceeded after several retries. Please wait a moment and try again.");
+    } else if (error.status === 404) {
+      return new Error(isEnhancement
+        ? `Chat model ${ENHANCEMENT_MODEL} not found or not available to this API key.`
+        : "Embedding model or endpoint not found. Please check the provider settings.");
+    } else if (error instanceof OpenAI.APIConnectionError || error instanceof TypeError) {
+      return new Error(isEnhancement
+        ? "Could not reach OpenAI for AI enhancement. Check your connection and try again."
+        : "Could not reach the embedding provider. Check the endpoint URL and that it allows browser requests (CORS).");
     } else if (error.message?.includes('parse')) {
       return new Error("Invalid input data. Please check your inputs and try again.");
     }
-    return new Error("Analysis failed. Please try again or contact support.");
+    return new Error(isEnhancement
+      ? "Enhancement failed. Please try again or contact support."
+      : "Analysis failed. Please try again or contact support.");
   }
 
   // Cleanup method
   destroy() {
     this.openai = null;
+    this.embeddingProvider = null;
+    this.batcher = null;
   }
 }
 
@@ -0,0 +1,68 @@
+import { type Project } from '@shared/schema';
+import { openDatabase, request, transactionDone } from '@/lib/indexed-db';
+
+const DB_NAME = 'semantic-analyzer-projects';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+// Projects live in IndexedDB next to the analysis history; like history they hold copy, so they
+// are only ever stored on this device
+export class ProjectStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async list(): Promise<Project[]> {
+    const db = await this.open();
+    const projects = await request<Project[]>(db.transaction(STORE).objectStore(STORE).getAll());
+    return projects.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(name: string): Promise<Project> {
+    const now = Date.now();
+    return this.save({
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      createdAt: now,
+      updatedAt: now,
+      keywordSets: [],
+      competitors: [],
+      pages: []
+    });
+  }
+
+  async save(project: Project): Promise<Project> {
+    const saved = { ...project, updatedAt: Date.now() };
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(saved);
+    await transactionDone(tx);
+    return saved;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Insert or replace by name, so saving "Pricing page" twice updates it instead of duplicating it
+export function upsertByName<T extends { name: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex(existing => existing.name === item.name);
+  if (index === -1) return [...items, item];
+  return items.map((existing, i) => (i === index ? item : existing));
+}
+
+// Export singleton instance
+export const projectStore = new ProjectStore();
@@ -0,0 +1,102 @@
+import { type ScoreCalibration, type ScoringStrategy } from '@shared/schema';
+import { cosineSimilarity } from '@/lib/analysis';
+
+// Each reference pairs a keyword phrase with a page-like passage about it. Scoring every phrase
+// against its own passage and against all the others gives, for whichever embedding model is in
+// use, what an on-topic match and an off-topic page look like on the raw scale.
+export const REFERENCE_TOPICS: Array<{ keyword: string; text: string }> = [
+  {
+    keyword: 'sourdough bread baking',
+    text: 'Feed your starter the night before so it is bubbly and active by morning. Mix flour, water and levain, rest the dough for an hour, then add salt and fold it every thirty minutes. After bulk fermentation, shape a tight boule, proof it overnight in the fridge and bake it in a preheated Dutch oven until the crust is deep brown.'
+  },
+  {
+    keyword: 'running shoes for beginners',
+    text: 'New runners should look for a shoe with enough cushioning to absorb impact and a heel-to-toe drop that suits their stride. Get fitted late in the day when your feet are largest, leave a thumb\'s width at the toe, and replace your pair every 500 to 800 kilometres. Neutral trainers suit most people starting out.'
+  },
+  {
+    keyword: 'home mortgage refinancing',
+    text: 'Refinancing replaces your current home loan with a new one, usually to secure a lower interest rate or shorten the term. Compare the closing costs against your monthly savings to find the break-even point, check your credit score before applying, and ask lenders for a loan estimate so you can compare offers side by side.'
+  },
+  {
+    keyword: 'indoor houseplant care',
+    text: 'Most houseplants die from overwatering rather than neglect. Check the top few centimetres of soil before watering, use pots with drainage holes and place plants according to their light needs. Ferns love humidity, succulents want bright sun and dry soil, and pothos tolerates low light. Feed them lightly during spring and summer.'
+  },
+  {
+    keyword: 'kubernetes container orchestration',
+    text: 'Kubernetes schedules containers across a cluster of nodes and keeps them running. You describe deployments, services and config maps in YAML, and the control plane reconciles the cluster towards that desired state, restarting failed pods, rolling out new versions gradually and scaling replicas up or down based on CPU usage.'
+  },
+  {
+    keyword: 'family travel to japan',
+    text: 'Japan is easy to explore with children thanks to spotless trains, safe streets and convenience stores on every corner. A rail pass makes sense if you combine Tokyo, Kyoto and Osaka. Book family rooms early, carry a stroller that folds quickly for station stairs, and plan quieter temple visits in the morning before the crowds arrive.'
+  },
+  {
+    keyword: 'dog obedience training',
+    text: 'Start with short sessions of five to ten minutes and reward the behaviour you want the moment it happens. Teach sit, down, stay and recall in a quiet room before practising outdoors with distractions. Be consistent with cue words across the household, and never punish a dog for coming back to you, however long it took.'
+  },
+  {
+    keyword: 'solar panel installation',
+    text: 'Before installing solar panels, check that your roof faces the sun for most of the day and has years of life left. An installer will size the system from your annual electricity use, handle permits and connect the inverter to the grid. Battery storage lets you use daytime generation in the evening, and net metering credits any surplus.'
+  },
+  {
+    keyword: 'symptoms of iron deficiency',
+    text: 'Low iron often shows up as tiredness, pale skin, shortness of breath on exertion and cold hands and feet. Some people notice brittle nails or unusual cravings for ice. A blood test measuring ferritin and haemoglobin confirms it, and treatment usually combines iron-rich foods such as lentils and red meat with supplements for a few months.'
+  },
+  {
+    keyword: 'wedding photography packages',
+    text: 'Our wedding packages cover everything from the morning preparations to the first dance. Every package includes an engagement shoot, a second photographer for the ceremony and a private online gallery of edited, high-resolution images. Add a printed album or a same-day slideshow for the reception, and book early for summer Saturdays.'
+  },
+  {
+    keyword: 'learn guitar chords',
+    text: 'Begin with the open chords G, C, D, E minor and A minor, which cover thousands of songs. Press the strings just behind the frets, keep your thumb behind the neck and strum slowly until every note rings clearly. Practise switching between two chords for a minute at a time; smooth changes matter more than speed at first.'
+  },
+  {
+    keyword: 'small business accounting software',
+    text: 'Accounting software lets small businesses send invoices, track expenses and reconcile bank transactions without a spreadsheet. Look for automatic bank feeds, receipt scanning, payroll and sales tax reports your accountant can open directly. Most tools charge a monthly subscription and scale from a sole trader to a team of twenty.'
+  }
+];
+
+// Coverage is already a share of keywords and the BM25 blend mixes in lexical matching, so the
+// cosine-based reference tables only describe these strategies
+export const CALIBRATED_STRATEGIES: ScoringStrategy[] = ['centroid', 'max-section'];
+
+// Deciles (p0, p10, ..., p100) of the raw scores
+const QUANTILES = Array.from({ length: 11 }, (_, i) => i / 10);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function quantiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return QUANTILES.map(q => {
+    const position = q * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return round1(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower));
+  });
+}
+
+// keywordVectors[i] and textVectors[i] embed REFERENCE_TOPICS[i] with the model being calibrated
+export function buildCalibrationTable(keywordVectors: number[][], textVectors: number[][]): ScoreCalibration {
+  const onTopic: number[] = [];
+  const offTopic: number[] = [];
+
+  keywordVectors.forEach((keyword, i) => {
+    textVectors.forEach((text, j) => {
+      (i === j ? onTopic : offTopic).push(cosineSimilarity(keyword, text) * 100);
+    });
+  });
+
+  return { offTopic: quantiles(offTopic), onTopic: quantiles(onTopic) };
+}
+
+const median = (table: number[]) => table[Math.floor(table.length / 2)];
+
+// 0 is where a typical off-topic page lands with this model and 100 a typical on-topic match;
+// raw scores outside that range are clamped
+export function calibrateScore(raw: number, calibration: ScoreCalibration): number {
+  const floor = median(calibration.offTopic);
+  const ceiling = median(calibration.onTopic);
+  if (ceiling <= floor) return raw;
+
+  const scaled = ((raw - floor) / (ceiling - floor)) * 100;
+  return round1(Math.min(100, Math.max(0, scaled)));
+}
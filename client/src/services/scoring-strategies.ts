@@ -0,0 +1,113 @@
+import { type ScoringStrategy } from '@shared/schema';
+
+// A keyword counts as covered once some section reaches the strong-section similarity band
+const COVERED_KEYWORD_SIMILARITY = 0.45;
+
+// BM25 term-frequency saturation and length normalization, with the usual defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of the lexical-blend score that comes from BM25; the rest is the centroid score
+const LEXICAL_BLEND_WEIGHT = 0.3;
+
+export interface ScoringStrategyInfo {
+  label: string;
+  description: string;
+}
+
+export const SCORING_STRATEGIES: Record<ScoringStrategy, ScoringStrategyInfo> = {
+  'centroid': {
+    label: 'Weighted centroid',
+    description: 'All keywords are combined into one weighted topic vector and the score is its cosine similarity to your content (the average over sections in chunked mode). Rewards focus on the topic as a whole.'
+  },
+  'max-section': {
+    label: 'Best section per keyword',
+    description: 'Each keyword is scored by the section most similar to it, and the score is the weighted average of those best matches. Rewards having a strong section for every keyword.'
+  },
+  'coverage': {
+    label: 'Keyword coverage',
+    description: `The weighted share of keywords that some section covers strongly (cosine similarity of at least ${COVERED_KEYWORD_SIMILARITY}). Rewards breadth: every keyword covered counts, however briefly.`
+  },
+  'lexical-blend': {
+    label: 'Semantic + lexical (BM25)',
+    description: `${Math.round((1 - LEXICAL_BLEND_WEIGHT) * 100)}% weighted centroid plus ${Math.round(LEXICAL_BLEND_WEIGHT * 100)}% BM25-style keyword matching, where repeated mentions saturate, long pages are normalized against the other pages, and keywords every page uses count less. Rewards using the exact terms.`
+  }
+};
+
+export interface ScoringDocument {
+  text: string;
+  centroidScore: number; // 0-100, averaged over sections in chunked mode
+  centroidContributions: number[]; // per keyword; adds up to centroidScore
+  similarities: number[][]; // [keywordIndex][sectionIndex] cosine similarity
+  mentions: number[]; // direct mentions per keyword
+}
+
+export interface DocumentScore {
+  score: number; // 0-100
+  contributions: number[]; // points of the score attributable to each keyword
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Every strategy is a weighted sum of per-keyword terms, so contributions always add up to the
+// score. Documents are scored together because BM25 normalizes against all of them.
+export function scoreDocuments(
+  strategy: ScoringStrategy,
+  weights: number[],
+  documents: ScoringDocument[]
+): DocumentScore[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const fromTerms = (terms: number[][]) => terms.map(keywordTerms => ({
+    score: round1(keywordTerms.reduce((sum, term) => sum + term, 0)),
+    contributions: keywordTerms.map(round1)
+  }));
+
+  switch (strategy) {
+    case 'max-section':
+      return fromTerms(documents.map(doc =>
+        weights.map((weight, k) => (weight / totalWeight) * Math.max(...doc.similarities[k]) * 100)
+      ));
+
+    case 'coverage':
+      return fromTerms(documents.map(doc =>
+        weights.map((weight, k) =>
+          Math.max(...doc.similarities[k]) >= COVERED_KEYWORD_SIMILARITY ? (weight / totalWeight) * 100 : 0
+        )
+      ));
+
+    case 'lexical-blend': {
+      const lexical = bm25Terms(weights, documents);
+      return fromTerms(documents.map((doc, d) =>
+        doc.centroidContributions.map((contribution, k) =>
+          (1 - LEXICAL_BLEND_WEIGHT) * contribution + LEXICAL_BLEND_WEIGHT * lexical[d][k]
+        )
+      ));
+    }
+
+    default:
+      return documents.map(doc => ({
+        score: round1(doc.centroidScore),
+        contributions: doc.centroidContributions.map(round1)
+      }));
+  }
+}
+
+// Per document and keyword: saturated term frequency (0-1) x IDF x weight, scaled so the total
+// approaches 100 as every keyword is mentioned more often
+function bm25Terms(weights: number[], documents: ScoringDocument[]): number[][] {
+  const lengths = documents.map(doc => doc.text.split(/\s+/).filter(Boolean).length);
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / documents.length || 1;
+
+  const idf = weights.map((_, k) => {
+    const containing = documents.filter(doc => doc.mentions[k] > 0).length;
+    return Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+  });
+  const totalWeight = weights.reduce((sum, weight, k) => sum + weight * idf[k], 0);
+
+  return documents.map((doc, d) => weights.map((weight, k) => {
+    const tf = doc.mentions[k];
+    const saturation = (tf * (BM25_K1 + 1)) /
+      (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengths[d] / averageLength)) / (BM25_K1 + 1);
+    return ((weight * idf[k]) / totalWeight) * saturation * 100;
+  }));
+}
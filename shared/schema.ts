@@ -3,70 +3,338 @@ import { z } from "zod";
 // Add semantic role support
 export type KeywordRole = 'main' | 'supporting';
 
+// Search intent as labelled by keyword research tools
+export const keywordIntentSchema = z.enum(['informational', 'navigational', 'commercial', 'transactional']);
+
 export const keywordSchema = z.object({
   text: z.string().min(1),
   role: z.enum(['main', 'supporting']).default('supporting'),
-  weight: z.number().min(0.1).max(10).default(1)
+  weight: z.number().min(0.1).max(10).default(1),
+  // Synonyms and acronyms (e.g. "SEO") counted as mentions alongside stemmed and plural forms
+  synonyms: z.array(z.string().min(1)).max(20).optional(),
+  // Research metadata, typed in or kept from imported keyword lists
+  searchVolume: z.number().int().min(0).optional(), // monthly searches
+  difficulty: z.number().min(0).max(100).optional(),
+  intent: keywordIntentSchema.optional(),
+  group: z.string().min(1).max(100).optional() // results are grouped by it, e.g. a topic cluster
 });
 
+// Embedding providers - lets teams keep copy away from OpenAI when clients require it
+export const embeddingProviderSchema = z.enum(['openai', 'azure-openai', 'cohere', 'openai-compatible']);
+
+// Embedding hosts the Content-Security-Policy allows (see SecurityHeaders). A CSP set from a meta
+// tag cannot be widened once the page has loaded, so endpoint URLs are held to this list instead.
+export const EMBEDDING_CONNECT_SOURCES = [
+  'https://api.openai.com',
+  'https://*.openai.azure.com',
+  'https://*.cognitiveservices.azure.com', // Azure OpenAI resources created through AI Services
+  'https://api.cohere.com',
+  'http://localhost:*',
+  'http://127.0.0.1:*'
+];
+
+// "api.openai.com, *.openai.azure.com, ..., localhost" for messages
+const ALLOWED_ENDPOINT_HOSTS = EMBEDDING_CONNECT_SOURCES
+  .map(source => source.replace(/^\w+:\/\//, '').replace(/:\*$/, ''))
+  .join(', ');
+
+export function isAllowedEndpoint(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  return EMBEDDING_CONNECT_SOURCES.some(source => {
+    const [, scheme, host, port] = source.match(/^(\w+):\/\/([^:]+)(?::(.+))?$/)!;
+    const hostMatches = host.startsWith('*.') ? parsed.hostname.endsWith(host.slice(1)) : parsed.hostname === host;
+    return parsed.protocol === `${scheme}:` && hostMatches && (port === '*' || parsed.port === '');
+  });
+}
+
+export const embeddingConfigSchema = z.object({
+  provider: embeddingProviderSchema.default('openai'),
+  model: z.string().min(1).default('text-embedding-3-small'),
+  baseUrl: z.string().url().optional(), // Azure endpoint or local server (e.g. Ollama, llama.cpp)
+  deployment: z.string().optional(), // Azure only
+  apiVersion: z.string().optional(), // Azure only
+  dimensions: z.number().int().positive().optional()
+});
+
+export const competitorSchema = z.object({
+  name: z.string().min(1).max(100),
+  copy: z.string().min(1).max(50000)
+});
+
+export const analysisModeSchema = z.enum(['full', 'chunked']);
+
+// How keyword similarities become one score; see SCORING_STRATEGIES for what each one rewards
+export const scoringStrategySchema = z.enum(['centroid', 'max-section', 'coverage', 'lexical-blend']);
+
+// How chunked mode splits a document: 'auto' tries headings, then paragraphs, then fixed windows
+export const chunkingStrategySchema = z.enum(['auto', 'headings', 'paragraphs', 'sliding-window']);
+
 export const analysisRequestSchema = z.object({
-  apiKey: z.string().min(1).refine(key => key.startsWith('sk-'), {
-    message: "API key must start with 'sk-'"
-  }),
+  apiKey: z.string(),
   keywords: z.array(keywordSchema).min(1).max(50),
   mainCopy: z.string().min(1).max(50000), // ~4000 words * 12.5 chars avg
-  competitorCopy: z.string().min(1).max(50000),
-  analysisMode: z.enum(['full', 'chunked']).default('full')
+  competitors: z.array(competitorSchema).min(1).max(10), // e.g. the top-ranking pages for the query
+  analysisMode: analysisModeSchema.default('full'),
+  chunkingStrategy: chunkingStrategySchema.default('auto'),
+  scoringStrategy: scoringStrategySchema.default('centroid'),
+  calibrateScores: z.boolean().default(false),
+  pageName: z.string().max(200).optional(), // groups saved runs of the same page in history
+  embedding: embeddingConfigSchema.default({})
+}).superRefine((data, ctx) => {
+  const { provider, baseUrl } = data.embedding;
+
+  if (provider === 'openai' && !data.apiKey.startsWith('sk-')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKey'], message: "API key must start with 'sk-'" });
+  } else if (provider !== 'openai-compatible' && !data.apiKey) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKey'], message: "API key is required for this provider" });
+  }
+
+  const names = data.competitors.map(competitor => competitor.name.trim().toLowerCase());
+  names.forEach((name, i) => {
+    if (names.indexOf(name) !== i) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['competitors', i, 'name'], message: "Competitor names must be unique" });
+    }
+  });
+
+  if ((provider === 'azure-openai' || provider === 'openai-compatible') && !baseUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['embedding', 'baseUrl'], message: "Endpoint URL is required for this provider" });
+  } else if (baseUrl && !isAllowedEndpoint(baseUrl)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['embedding', 'baseUrl'],
+      message: `Endpoint must be on one of ${ALLOWED_ENDPOINT_HOSTS}; the app's security policy blocks other hosts`
+    });
+  }
+});
+
+// Location of a section in the copy it came from: [start, end) character offsets plus the
+// 1-based line/column of each end, so any consumer can highlight the exact range
+export const sourceSpanSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  startLine: z.number(),
+  startColumn: z.number(),
+  endLine: z.number(),
+  endColumn: z.number()
 });
 
 export const chunkResultSchema = z.object({
   title: z.string(),
+  level: z.number(), // heading level (1 for H1); 1 for paragraphs and windows
   score: z.number(),
-  startIndex: z.number(),
-  endIndex: z.number(),
+  span: sourceSpanSchema,
   text: z.string()
 });
 
 // Add new schemas for enhanced analysis
+export const competitorKeywordCoverageSchema = z.object({
+  name: z.string(),
+  mentions: z.number(),
+  semanticCoverage: z.number()
+});
+
+// On-page checks for one keyword. Placement fields are null when the page has no such element.
+export const lexicalStatsSchema = z.object({
+  mentions: z.number(), // including stemmed and plural variants and synonyms
+  variantsFound: z.array(z.string()), // forms other than the keyword as written, e.g. "optimizing" or "SEO"
+  density: z.number(), // mentions per 100 words
+  firstOccurrence: z.number().nullable(), // % of the way through the page, null if never mentioned
+  placement: z.object({
+    title: z.boolean().nullable(),
+    h1: z.boolean().nullable(),
+    h2: z.boolean().nullable(),
+    firstParagraph: z.boolean().nullable(),
+    metaDescription: z.boolean().nullable()
+  }),
+  warnings: z.array(z.string()) // over-optimization
+});
+
+// A term competitors use that is semantically close to a keyword
+export const competitorTermSchema = z.object({
+  term: z.string(),
+  similarity: z.number(), // 0-100, cosine similarity to the keyword
+  competitors: z.number(), // how many competitors use it
+  mentions: z.number() // across all competitors
+});
+
 export const keywordCoverageSchema = z.object({
   keyword: z.string(),
+  role: z.enum(['main', 'supporting']).optional(), // Missing from runs saved before it was introduced
   weight: z.number(),
+  // Copied from the keyword so exports and grouping work from the results alone
+  intent: keywordIntentSchema.optional(),
+  searchVolume: z.number().optional(),
+  group: z.string().optional(),
   directMentions: z.number(),
   semanticCoverage: z.number(), // 0-100%
+  // Points of the overall score attributable to this keyword; they add up to the score.
+  // Missing from runs saved before it was introduced.
+  scoreContribution: z.number().optional(),
+  lexical: lexicalStatsSchema.optional(), // Missing from runs saved before it was introduced
   strongSections: z.array(z.string()),
   weakSections: z.array(z.string()),
-  relatedTermsFound: z.array(z.string()),
-  competitorAdvantage: z.boolean(),
-  competitorMentions: z.number()
+  relatedTermsFound: z.array(z.string()), // variants, synonyms and related competitor terms your copy uses
+  missingTerms: z.array(competitorTermSchema).optional(), // related terms competitors use and you don't
+  competitorCoverage: z.array(competitorKeywordCoverageSchema),
+  // The competitor that covers this keyword best, which the fields below describe
+  bestCompetitor: z.string(),
+  competitorSemanticCoverage: z.number(), // 0-100%, same method applied to competitor copy
+  competitorMentions: z.number(),
+  competitorAdvantage: z.boolean()
 });
 
 export const sectionImprovementSchema = z.object({
   section: z.string(),
+  span: sourceSpanSchema,
   currentScore: z.number(),
   missingKeywords: z.array(z.string()),
   suggestedPhrases: z.array(z.string()),
   competitorStrengths: z.array(z.string())
 });
 
+// AI enhancement runs in the browser like analysis; this is the contract between the dialog and the client
+export const enhanceRequestSchema = z.object({
+  originalText: z.string().min(1).max(50000),
+  improvements: z.array(sectionImprovementSchema).min(1),
+  // Only sections scoring below this are rewritten; everything else is kept byte-for-byte
+  scoreThreshold: z.number().min(0).max(100).default(60),
+  // The analysed keywords, so added mentions count synonyms the same way the analysis does
+  keywords: z.array(keywordSchema).optional()
+});
+
+// One entry per rewritten section: where it was in the original and which of its missing keywords
+// the rewrite now mentions more often
+export const enhancementEditSchema = z.object({
+  section: z.string(),
+  span: sourceSpanSchema,
+  keywordsAdded: z.array(z.string())
+});
+
+export const enhanceResponseSchema = z.object({
+  enhancedContent: z.string(),
+  model: z.string(),
+  edits: z.array(enhancementEditSchema)
+});
+
+// Keyword x section cosine similarity (x100), values[keywordIndex][sectionIndex]
+export const similarityMatrixSchema = z.object({
+  keywords: z.array(z.string()),
+  sections: z.array(z.string()),
+  values: z.array(z.array(z.number()))
+});
+
+export const competitorResultSchema = z.object({
+  name: z.string(),
+  score: z.number(),
+  chunks: z.array(chunkResultSchema).optional(),
+  similarityMatrix: similarityMatrixSchema
+});
+
+// Records which provider/model produced the vectors, since scores are not comparable across models
+export const embeddingInfoSchema = z.object({
+  provider: embeddingProviderSchema,
+  model: z.string(),
+  dimensions: z.number()
+});
+
+// Deciles (p0..p100) of raw scores for bundled reference keywords against their own passage (onTopic)
+// and every other passage (offTopic), measured with the model that produced the result
+export const scoreCalibrationSchema = z.object({
+  offTopic: z.array(z.number()),
+  onTopic: z.array(z.number())
+});
+
 // Update the existing analysisResultSchema to include new fields
 export const analysisResultSchema = z.object({
   mainCopyScore: z.number(),
-  competitorCopyScore: z.number(),
+  competitors: z.array(competitorResultSchema), // Sorted by score, leader first
+  competitorMedianScore: z.number(),
   gapAnalysis: z.string(),
   mainCopyChunks: z.array(chunkResultSchema).optional(),
-  competitorCopyChunks: z.array(chunkResultSchema).optional(),
   keywordWeights: z.array(keywordSchema),
   processingTime: z.number(),
+  cacheStats: z.object({ hits: z.number(), misses: z.number() }),
   // Add new fields for enhanced analysis
   keywordAnalysis: z.array(keywordCoverageSchema),
-  sectionImprovements: z.array(sectionImprovementSchema)
+  sectionImprovements: z.array(sectionImprovementSchema),
+  similarityMatrix: similarityMatrixSchema, // Main copy; each competitor carries its own
+  embedding: embeddingInfoSchema,
+  scoringStrategy: scoringStrategySchema.optional(), // Missing from older runs, which used 'centroid'
+  calibration: scoreCalibrationSchema.optional() // Only when calibrated scores were requested
+});
+
+// A saved run: the inputs and result needed to reopen it. The API key is never stored.
+export const analysisRunSchema = z.object({
+  id: z.string(),
+  createdAt: z.number(),
+  pageName: z.string(),
+  keywords: z.array(keywordSchema),
+  mainCopy: z.string(),
+  competitors: z.array(competitorSchema),
+  analysisMode: analysisModeSchema,
+  chunkingStrategy: chunkingStrategySchema,
+  scoringStrategy: scoringStrategySchema.optional(), // Missing from older runs, which used 'centroid'
+  calibrateScores: z.boolean().optional(),
+  embedding: embeddingConfigSchema,
+  result: analysisResultSchema
+});
+
+// Projects (e.g. one client site) hold reusable inputs so the same keyword and competitor
+// configuration can be run across many landing pages
+export const keywordSetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  keywords: z.array(keywordSchema).min(1).max(50)
+});
+
+export const targetPageSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(200),
+  copy: z.string().max(50000)
+});
+
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  keywordSets: z.array(keywordSetSchema),
+  competitors: z.array(competitorSchema).max(10), // roster applied as a whole
+  pages: z.array(targetPageSchema)
 });
 
 export type Keyword = z.infer<typeof keywordSchema>;
+export type KeywordIntent = z.infer<typeof keywordIntentSchema>;
 export type AnalysisRequest = z.infer<typeof analysisRequestSchema>;
+export type Competitor = z.infer<typeof competitorSchema>;
+export type CompetitorResult = z.infer<typeof competitorResultSchema>;
+export type SourceSpan = z.infer<typeof sourceSpanSchema>;
 export type ChunkResult = z.infer<typeof chunkResultSchema>;
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+export type ChunkingStrategy = z.infer<typeof chunkingStrategySchema>;
+export type ScoringStrategy = z.infer<typeof scoringStrategySchema>;
+export type EmbeddingProviderId = z.infer<typeof embeddingProviderSchema>;
+export type EmbeddingConfig = z.infer<typeof embeddingConfigSchema>;
+export type EmbeddingInfo = z.infer<typeof embeddingInfoSchema>;
+export type ScoreCalibration = z.infer<typeof scoreCalibrationSchema>;
+export type LexicalStats = z.infer<typeof lexicalStatsSchema>;
+export type CompetitorTerm = z.infer<typeof competitorTermSchema>;
+export type AnalysisRun = z.infer<typeof analysisRunSchema>;
+export type KeywordSet = z.infer<typeof keywordSetSchema>;
+export type TargetPage = z.infer<typeof targetPageSchema>;
+export type Project = z.infer<typeof projectSchema>;
 
 // Export new types
 export type KeywordCoverage = z.infer<typeof keywordCoverageSchema>;
+export type CompetitorKeywordCoverage = z.infer<typeof competitorKeywordCoverageSchema>;
 export type SectionImprovement = z.infer<typeof sectionImprovementSchema>;
+export type SimilarityMatrix = z.infer<typeof similarityMatrixSchema>;
+export type EnhanceRequest = z.infer<typeof enhanceRequestSchema>;
+export type EnhanceResponse = z.infer<typeof enhanceResponseSchema>;
+export type EnhancementEdit = z.infer<typeof enhancementEditSchema>;